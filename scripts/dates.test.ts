@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { parseDate } from "./dates";
+
+// 2026-03-02 is a Monday
+const MONDAY = new Date(2026, 2, 2);
+const FRIDAY = new Date(2026, 2, 6);
+const SATURDAY = new Date(2026, 2, 7);
+
+describe("weekday names", () => {
+  test("a bare weekday on that same weekday is a week away", () => {
+    expect(parseDate("monday", MONDAY)).toBe("2026-03-09");
+    expect(parseDate("fri", FRIDAY)).toBe("2026-03-13");
+  });
+
+  test("a bare weekday later in the week stays in the week", () => {
+    expect(parseDate("tuesday", MONDAY)).toBe("2026-03-03");
+    expect(parseDate("Sunday", MONDAY)).toBe("2026-03-08");
+  });
+
+  test("this and next pick a day of this week or of next week", () => {
+    expect(parseDate("this monday", MONDAY)).toBe("2026-03-02");
+    expect(parseDate("next monday", MONDAY)).toBe("2026-03-09");
+    expect(parseDate("this monday", FRIDAY)).toBe("2026-03-02");
+    expect(parseDate("next friday", FRIDAY)).toBe("2026-03-13");
+  });
+});
+
+describe("ends of periods", () => {
+  test("eow is this week's Friday, or next week's on a weekend", () => {
+    expect(parseDate("eow", MONDAY)).toBe("2026-03-06");
+    expect(parseDate("end of week", FRIDAY)).toBe("2026-03-06");
+    expect(parseDate("eow", SATURDAY)).toBe("2026-03-13");
+  });
+
+  test("eom follows the month's length", () => {
+    expect(parseDate("eom", new Date(2026, 1, 10))).toBe("2026-02-28");
+    expect(parseDate("eom", new Date(2028, 1, 10))).toBe("2028-02-29");
+    expect(parseDate("end of month", new Date(2026, 3, 30))).toBe("2026-04-30");
+  });
+});
+
+describe("offsets", () => {
+  test("in N days and weeks", () => {
+    expect(parseDate("in 3 days", MONDAY)).toBe("2026-03-05");
+    expect(parseDate("in 1 day", new Date(2026, 11, 31))).toBe("2027-01-01");
+    expect(parseDate("in 2 weeks", MONDAY)).toBe("2026-03-16");
+    expect(parseDate("In  2   Weeks", MONDAY)).toBe("2026-03-16");
+  });
+
+  test("short offsets, including backwards", () => {
+    expect(parseDate("+2w", MONDAY)).toBe("2026-03-16");
+    expect(parseDate("-1d", MONDAY)).toBe("2026-03-01");
+    expect(parseDate("+1m", new Date(2026, 0, 31))).toBe("2026-02-28");
+  });
+});
+
+describe("invalid input", () => {
+  test("throws instead of guessing", () => {
+    for (const input of [
+      "2026-02-30",
+      "2026-13-01",
+      "2026-3-6",
+      "someday",
+      "in x days",
+      "in 3 fortnights",
+      "next mo",
+      "",
+    ]) {
+      expect(() => parseDate(input, MONDAY)).toThrow(/Unrecognised date/);
+    }
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Dates - natural-language dates for task and card fields
+ *
+ * Turns what people type after --due (and friends) into the YYYY-MM-DD the
+ * Tasks plugin and kanban fields store, counting from today in the local
+ * timezone. Weeks start on Monday.
+ *
+ *   2026-03-06                    as written (checked to be a real date)
+ *   today, tomorrow, yesterday
+ *   friday, fri                   the next Friday after today
+ *   this friday, next friday      Friday of this week / of next week
+ *   in 3 days, in 2 weeks         also months and years
+ *   +3d, +2w, +1m, +1y, -1d       short offsets
+ *   next week / month / year      Monday / the 1st / January 1st
+ *   eow, end of week              this week's Friday (next week's on weekends)
+ *   eom, end of month             last day of this month
+ *   eoy, end of year              December 31st
+ */
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const UNITS: Record<string, "day" | "week" | "month" | "year"> = {
+  d: "day",
+  day: "day",
+  days: "day",
+  w: "week",
+  week: "week",
+  weeks: "week",
+  m: "month",
+  month: "month",
+  months: "month",
+  y: "year",
+  year: "year",
+  years: "year",
+};
+
+/** YYYY-MM-DD of a date in the local timezone (today by default). */
+export function formatDate(date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// === Arithmetic ===
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/** Add months, clamping to the end of shorter months (Jan 31 + 1 month = Feb 28). */
+function addMonths(date: Date, months: number): Date {
+  const first = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const last = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+  return new Date(first.getFullYear(), first.getMonth(), Math.min(date.getDate(), last));
+}
+
+function addUnits(date: Date, count: number, unit: string): Date {
+  switch (UNITS[unit]) {
+    case "day":
+      return addDays(date, count);
+    case "week":
+      return addDays(date, 7 * count);
+    case "month":
+      return addMonths(date, count);
+    default:
+      return addMonths(date, 12 * count);
+  }
+}
+
+/** Monday of the week containing date. */
+function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getDay() + 6) % 7));
+}
+
+function parseWeekday(word: string): number | undefined {
+  const index = WEEKDAYS.findIndex((d) => word.length >= 3 && d.startsWith(word));
+  return index === -1 ? undefined : index;
+}
+
+// === Parsing ===
+
+function resolve(value: string, today: Date): Date | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const [year, month, day] = iso.slice(1).map(Number);
+    const date = new Date(year, month - 1, day);
+    // Reject dates the Date constructor rolled over, e.g. 2026-02-30
+    return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+  }
+
+  const fixed: Record<string, () => Date> = {
+    today: () => today,
+    tomorrow: () => addDays(today, 1),
+    yesterday: () => addDays(today, -1),
+    "next week": () => addDays(startOfWeek(today), 7),
+    "next month": () => new Date(today.getFullYear(), today.getMonth() + 1, 1),
+    "next year": () => new Date(today.getFullYear() + 1, 0, 1),
+    eow: () => addDays(today, (5 - today.getDay() + 7) % 7),
+    "end of week": () => addDays(today, (5 - today.getDay() + 7) % 7),
+    eom: () => new Date(today.getFullYear(), today.getMonth() + 1, 0),
+    "end of month": () => new Date(today.getFullYear(), today.getMonth() + 1, 0),
+    eoy: () => new Date(today.getFullYear(), 11, 31),
+    "end of year": () => new Date(today.getFullYear(), 11, 31),
+  };
+  if (value in fixed) return fixed[value]();
+
+  const offset = value.match(/^(?:in (\d+)|([+-]\d+)) ?([a-z]+)$/);
+  if (offset && offset[3] in UNITS) {
+    return addUnits(today, Number(offset[1] ?? offset[2]), offset[3]);
+  }
+
+  const weekday = value.match(/^(?:(this|next) )?([a-z]+)$/);
+  const day = weekday ? parseWeekday(weekday[2]) : undefined;
+  if (weekday && day !== undefined) {
+    if (!weekday[1]) return addDays(today, ((day - today.getDay() + 6) % 7) + 1);
+    const monday = addDays(startOfWeek(today), weekday[1] === "next" ? 7 : 0);
+    return addDays(monday, (day + 6) % 7);
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a date as typed by a user to YYYY-MM-DD. Throws on anything it
+ * does not recognise, so a typo never ends up in a date field.
+ */
+export function parseDate(input: string, now = new Date()): string {
+  const value = input.trim().toLowerCase().replace(/\s+/g, " ");
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const date = resolve(value, today);
+  if (!date) {
+    throw new Error(
+      `Unrecognised date "${input}" (e.g. 2026-03-06, today, friday, next friday, ` +
+        `in 3 days, +2w, eow, end of month)`,
+    );
+  }
+  return formatDate(date);
+}
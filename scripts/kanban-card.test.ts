@@ -0,0 +1,150 @@
+import { describe, expect, test } from "bun:test";
+import {
+  addTag,
+  cardFields,
+  cardTags,
+  parseCard,
+  removeField,
+  removeTag,
+  serializeCard,
+  setField,
+} from "./kanban-card";
+
+// Card lines as people and plugins write them; each must round-trip byte-for-byte
+const CORPUS = [
+  "- [ ] Fix login bug [priority::high] #agent-task ^abc123",
+  "- [ ] Fix #auth bug mid-sentence then #agent-task [status::ready]",
+  "- [ ] Read [[Auth Notes#Tokens]] and [[Page|alias #x]] [agent::claude-1]",
+  "- [ ] See [docs](https://example.com/a#frag) and [x::y](https://example.com) #docs",
+  "- [x] Use `[x::y]` and `#notatag` literally [result::ok] ^done-1",
+  "- [ ] Value with bracket [note::a \\] b] #t",
+  "- [ ] Escaped [note::open \\[ and close \\]] end",
+  "- [ ] Nested [result::[[Results/abc]]] #agent-task ^r1",
+  "- [ ] Issue #123 is not a tag #real-tag",
+  "- [ ] Odd   spacing  [priority::low]   #tag   ^id9",
+  "- [ ] Trailing spaces [k::v]   ",
+  "- [ ] Tab\tseparated [k::v]\t#x",
+  "- [X] Capital check [ key :: spaced value ] #done",
+  "- [ ] Déjà vu #café [owner::Zoë] #nested/tag",
+  "- [ ] [[Only a link]]",
+  "- [ ] Unclosed [field::value #tag",
+  "- [ ] Empty [k::] field and [[broken link #t",
+];
+
+/** The single span by which `longer` extends `shorter`, or null if they differ elsewhere. */
+function insertedSpan(shorter: string, longer: string): string | null {
+  let prefix = 0;
+  while (prefix < shorter.length && shorter[prefix] === longer[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < shorter.length - prefix &&
+    shorter[shorter.length - 1 - suffix] === longer[longer.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  if (prefix + suffix !== shorter.length) return null;
+  return longer.slice(prefix, longer.length - suffix);
+}
+
+/**
+ * Assert `after` is `before` plus exactly `token` and one separating space
+ * (or, for removals, the run of whitespace next to it).
+ */
+function expectInserted(before: string, after: string, token: string, anySpace = false): void {
+  const span = insertedSpan(before, after);
+  expect(span).not.toBeNull();
+  expect(span!.trim()).toBe(token);
+  if (anySpace) expect(span).toMatch(/^(\s+\S+|\S+\s+)$/);
+  else expect(span!.length).toBe(token.length + 1);
+}
+
+function edit(line: string, change: (card: NonNullable<ReturnType<typeof parseCard>>) => void) {
+  const card = parseCard(line)!;
+  change(card);
+  return serializeCard(card);
+}
+
+describe("round trip", () => {
+  for (const line of CORPUS) {
+    test(JSON.stringify(line), () => {
+      const card = parseCard(line);
+      expect(card).not.toBeNull();
+      expect(serializeCard(card!)).toBe(line);
+    });
+  }
+});
+
+describe("setField", () => {
+  for (const line of CORPUS) {
+    test(`new field on ${JSON.stringify(line)}`, () => {
+      if ("claimed_by" in cardFields(parseCard(line)!)) return;
+      const after = edit(line, (card) => setField(card, "claimed_by", "agent-7"));
+      expectInserted(line, after, "[claimed_by::agent-7]");
+    });
+  }
+
+  test("rewrites only the existing field's value", () => {
+    const line = "- [ ] Fix  #auth bug [priority::high]  #agent-task ^abc123";
+    const after = edit(line, (card) => setField(card, "priority", "low"));
+    expect(after).toBe("- [ ] Fix  #auth bug [priority::low]  #agent-task ^abc123");
+  });
+
+  test("keeps the key's spelling and spacing", () => {
+    const line = "- [X] Capital check [ key :: spaced value ] #done";
+    const after = edit(line, (card) => setField(card, "key", "new"));
+    expect(after).toBe("- [X] Capital check [ key :: new] #done");
+  });
+
+  test("escapes stray brackets in the new value", () => {
+    const line = "- [ ] Task [note::old] ^id1";
+    const after = edit(line, (card) => setField(card, "note", "a ] b [[Link]]"));
+    expect(after).toBe("- [ ] Task [note::a \\] b [[Link]]] ^id1");
+    expect(cardFields(parseCard(after)!).note).toBe("a ] b [[Link]]");
+  });
+
+  test("removeField undoes a new field", () => {
+    for (const line of CORPUS) {
+      if ("claimed_by" in cardFields(parseCard(line)!)) continue;
+      const after = edit(line, (card) => {
+        setField(card, "claimed_by", "agent-7");
+        removeField(card, "claimed_by");
+      });
+      expect(after).toBe(line);
+    }
+  });
+});
+
+describe("addTag", () => {
+  for (const line of CORPUS) {
+    test(`new tag on ${JSON.stringify(line)}`, () => {
+      const after = edit(line, (card) => addTag(card, "urgent"));
+      expectInserted(line, after, "#urgent");
+      expect(cardTags(parseCard(after)!)).toContain("urgent");
+    });
+  }
+
+  test("is a no-op for a tag the card has", () => {
+    const line = "- [ ] Fix #auth bug #agent-task ^abc123";
+    expect(edit(line, (card) => addTag(card, "auth"))).toBe(line);
+  });
+});
+
+describe("removeTag", () => {
+  for (const line of CORPUS) {
+    const tags = cardTags(parseCard(line)!);
+    for (const tag of tags) {
+      test(`#${tag} from ${JSON.stringify(line)}`, () => {
+        const after = edit(line, (card) => removeTag(card, tag));
+        expectInserted(after, line, `#${tag}`, true);
+        expect(cardTags(parseCard(after)!)).not.toContain(tag);
+      });
+    }
+  }
+
+  test("leaves #-text in links and code alone", () => {
+    const line = "- [ ] Read [[Notes#auth]] and `#auth` then #auth";
+    expect(edit(line, (card) => removeTag(card, "auth"))).toBe(
+      "- [ ] Read [[Notes#auth]] and `#auth` then",
+    );
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Kanban Card - round-trip-faithful tokeniser for card header lines
+ *
+ * A card line is split into tokens (text, whitespace, inline fields, tags,
+ * block ID). Edits replace or insert individual tokens and serialising joins
+ * the raw token text, so an unmodified card serialises to exactly the line it
+ * was parsed from.
+ *
+ *   - [ ] Fix [[Auth Notes#Tokens]] flow [agent::claude-1] #agent-task ^abc123
+ *
+ * Field values may contain brackets: balanced pairs (e.g. [[wikilinks]]) are
+ * written as-is, stray `[` / `]` are escaped with a backslash, as is a
+ * backslash that would otherwise be read as an escape.
+ */
+
+export type CardToken =
+  | { type: "text"; raw: string }
+  | { type: "space"; raw: string }
+  | { type: "field"; raw: string; key: string; value: string }
+  | { type: "tag"; raw: string; name: string }
+  | { type: "blockId"; raw: string; id: string };
+
+export interface Card {
+  mark: string; // checkbox character: " ", "x" or "X"
+  tokens: CardToken[];
+}
+
+const CARD_LINE = /^- \[([ xX])\] (.+)$/;
+const FIELD_KEY = /^\[([^[\]:]+)::/;
+const TAG = /^#([\p{L}\p{N}_/-]+)/u;
+const BLOCK_ID = /^\^([a-zA-Z0-9-]+)\s*$/;
+
+// === Escaping ===
+
+const ESCAPABLE = new Set(["[", "]", "\\"]);
+
+export function escapeFieldValue(value: string): string {
+  const escaped = new Set<number>();
+  const open: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    const c = value[i];
+    if (c === "\\") {
+      if (i === value.length - 1 || ESCAPABLE.has(value[i + 1])) escaped.add(i);
+    } else if (c === "[") {
+      open.push(i);
+    } else if (c === "]") {
+      if (open.length) open.pop();
+      else escaped.add(i);
+    }
+  }
+  open.forEach((i) => escaped.add(i));
+
+  let result = "";
+  for (let i = 0; i < value.length; i++) {
+    result += escaped.has(i) ? `\\${value[i]}` : value[i];
+  }
+  return result;
+}
+
+export function formatField(key: string, value: string): string {
+  return `[${key}::${escapeFieldValue(value)}]`;
+}
+
+/**
+ * Parse an inline field starting at `start` ("[key::value]"). Returns the
+ * field and the index just past it, or null if this is not a field.
+ */
+function scanField(
+  content: string,
+  start: number,
+): { token: CardToken & { type: "field" }; end: number } | null {
+  const keyMatch = content.slice(start).match(FIELD_KEY);
+  if (!keyMatch) return null;
+
+  let value = "";
+  let depth = 0;
+  for (let i = start + keyMatch[0].length; i < content.length; i++) {
+    const c = content[i];
+    if (c === "\\" && ESCAPABLE.has(content[i + 1])) {
+      value += content[++i];
+    } else if (c === "[") {
+      depth++;
+      value += c;
+    } else if (c === "]") {
+      if (depth === 0) {
+        const trimmed = value.trim();
+        if (!trimmed) return null;
+        return {
+          token: {
+            type: "field",
+            raw: content.slice(start, i + 1),
+            key: keyMatch[1].trim(),
+            value: trimmed,
+          },
+          end: i + 1,
+        };
+      }
+      depth--;
+      value += c;
+    } else {
+      value += c;
+    }
+  }
+  return null;
+}
+
+/** Index just past a protected span (code, wikilink, markdown link), or -1. */
+function scanProtected(content: string, start: number): number {
+  const rest = content.slice(start);
+  if (rest.startsWith("`")) {
+    const close = content.indexOf("`", start + 1);
+    return close === -1 ? -1 : close + 1;
+  }
+  const link = rest.match(/^\[\[[^[\]]*\]\]/) || rest.match(/^\[[^\]]*\]\([^)]*\)/);
+  return link ? start + link[0].length : -1;
+}
+
+// === Parsing ===
+
+export function tokenize(content: string): CardToken[] {
+  const tokens: CardToken[] = [];
+  const pushText = (raw: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === "text") last.raw += raw;
+    else tokens.push({ type: "text", raw });
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const rest = content.slice(i);
+    const atWordStart = i === 0 || /\s/.test(content[i - 1]);
+
+    const space = rest.match(/^\s+/);
+    if (space) {
+      tokens.push({ type: "space", raw: space[0] });
+      i += space[0].length;
+      continue;
+    }
+
+    const field = content[i] === "[" && !rest.startsWith("[[") ? scanField(content, i) : null;
+    if (field) {
+      tokens.push(field.token);
+      i = field.end;
+      continue;
+    }
+
+    const protectedEnd = scanProtected(content, i);
+    if (protectedEnd !== -1) {
+      pushText(content.slice(i, protectedEnd));
+      i = protectedEnd;
+      continue;
+    }
+
+    const tag = atWordStart ? rest.match(TAG) : null;
+    // Obsidian does not treat purely numeric "#123" as a tag
+    if (tag && !/^\d+$/.test(tag[1])) {
+      tokens.push({ type: "tag", raw: tag[0], name: tag[1] });
+      i += tag[0].length;
+      continue;
+    }
+
+    const blockId = atWordStart ? rest.match(BLOCK_ID) : null;
+    if (blockId) {
+      const raw = `^${blockId[1]}`;
+      tokens.push({ type: "blockId", raw, id: blockId[1] });
+      i += raw.length;
+      continue;
+    }
+
+    pushText(content[i]);
+    i++;
+  }
+
+  return tokens;
+}
+
+export function parseCard(line: string): Card | null {
+  const match = line.match(CARD_LINE);
+  if (!match) return null;
+  return { mark: match[1], tokens: tokenize(match[2]) };
+}
+
+export function serializeCard(card: Card): string {
+  return `- [${card.mark}] ${card.tokens.map((t) => t.raw).join("")}`;
+}
+
+export function cloneCard(card: Card): Card {
+  return { mark: card.mark, tokens: card.tokens.map((t) => ({ ...t })) };
+}
+
+// === Accessors ===
+
+export function isChecked(card: Card): boolean {
+  return card.mark !== " ";
+}
+
+/** Inline fields; when a key repeats, the last occurrence wins. */
+export function cardFields(card: Card): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const t of card.tokens) {
+    if (t.type === "field") fields[t.key] = t.value;
+  }
+  return fields;
+}
+
+export function cardTags(card: Card): string[] {
+  return card.tokens.flatMap((t) => (t.type === "tag" ? [t.name] : []));
+}
+
+export function cardBlockId(card: Card): string | undefined {
+  const token = card.tokens.find((t) => t.type === "blockId");
+  return token?.type === "blockId" ? token.id : undefined;
+}
+
+/** Card title: everything except fields, tags and the block ID. */
+export function cardText(card: Card): string {
+  return card.tokens
+    .filter((t) => t.type === "text" || t.type === "space")
+    .map((t) => t.raw)
+    .join("")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+// === Editing (in place) ===
+
+/** Insert literal text before the title, or right after its last word. */
+export function insertText(card: Card, text: string, position: "start" | "end"): void {
+  const token: CardToken = { type: "text", raw: text };
+  if (position === "start") {
+    card.tokens.unshift(token);
+  } else {
+    card.tokens.splice(lastIndexOfType(card, "text") + 1, 0, token);
+  }
+}
+
+/**
+ * Replace the title. The new text goes at the start of the line; fields and
+ * tags that sat between words of the old title keep their relative order.
+ */
+export function setText(card: Card, text: string): void {
+  const kept = card.tokens.filter((t) => t.type !== "text");
+  const tokens: CardToken[] = [{ type: "text", raw: text }];
+  for (const t of kept) {
+    // Drop the whitespace the removed words leave behind
+    if (t.type === "space" && tokens[tokens.length - 1].type === "space") continue;
+    tokens.push(t);
+  }
+  while (tokens.length > 1 && tokens[tokens.length - 1].type === "space") tokens.pop();
+  if (tokens.length > 1 && tokens[1].type !== "space") {
+    tokens.splice(1, 0, { type: "space", raw: " " });
+  }
+  card.tokens = tokens;
+}
+
+export function setChecked(card: Card, checked: boolean): void {
+  if (checked !== isChecked(card)) card.mark = checked ? "x" : " ";
+}
+
+function insertToken(card: Card, index: number, token: CardToken): void {
+  const before = card.tokens[index - 1];
+  const after = card.tokens[index];
+  const space: CardToken = { type: "space", raw: " " };
+
+  if (!before) card.tokens.splice(index, 0, token, space);
+  else if (after && after.type !== "space") card.tokens.splice(index, 0, token, space);
+  else card.tokens.splice(index, 0, space, token);
+}
+
+function removeToken(card: Card, index: number): void {
+  const before = card.tokens[index - 1];
+  const after = card.tokens[index + 1];
+  if (before?.type === "space") card.tokens.splice(index - 1, 2);
+  else if (after?.type === "space") card.tokens.splice(index, 2);
+  else card.tokens.splice(index, 1);
+}
+
+function lastIndexOfType(card: Card, type: CardToken["type"]): number {
+  return card.tokens.findLastIndex((t) => t.type === type);
+}
+
+/** Start of the trailing run of tags, block ID and whitespace. */
+function trailingStart(card: Card): number {
+  let i = card.tokens.length;
+  while (i > 0 && ["tag", "blockId", "space"].includes(card.tokens[i - 1].type)) i--;
+  return i;
+}
+
+/**
+ * Set a field's value. Existing occurrences are rewritten in place; a new
+ * field goes after the last field, or before the trailing tags/block ID.
+ */
+export function setField(card: Card, key: string, value: string): void {
+  const escaped = escapeFieldValue(value);
+  let found = false;
+
+  for (const t of card.tokens) {
+    if (t.type === "field" && t.key === key) {
+      // Keep the original key spelling and spacing around "::"
+      const head = t.raw.match(/^\[[^[\]:]+::\s*/)![0];
+      t.raw = `${head}${escaped}]`;
+      t.value = value;
+      found = true;
+    }
+  }
+  if (found) return;
+
+  const token: CardToken = { type: "field", raw: formatField(key, value), key, value };
+  const lastField = lastIndexOfType(card, "field");
+  if (lastField !== -1) {
+    card.tokens.splice(lastField + 1, 0, { type: "space", raw: " " }, token);
+  } else {
+    insertToken(card, trailingStart(card), token);
+  }
+}
+
+export function removeField(card: Card, key: string): void {
+  let i: number;
+  while ((i = card.tokens.findIndex((t) => t.type === "field" && t.key === key)) !== -1) {
+    removeToken(card, i);
+  }
+}
+
+/** Add a tag after the last tag, or before the block ID. */
+export function addTag(card: Card, name: string): void {
+  if (cardTags(card).includes(name)) return;
+
+  const token: CardToken = { type: "tag", raw: `#${name}`, name };
+  const lastTag = lastIndexOfType(card, "tag");
+  if (lastTag !== -1) {
+    card.tokens.splice(lastTag + 1, 0, { type: "space", raw: " " }, token);
+    return;
+  }
+
+  const blockId = lastIndexOfType(card, "blockId");
+  if (blockId !== -1) {
+    insertToken(card, blockId, token);
+  } else {
+    card.tokens.push({ type: "space", raw: " " }, token);
+  }
+}
+
+/** Replace the block ID, or add one at the end of the line. */
+export function setBlockId(card: Card, id: string): void {
+  const token = card.tokens.find((t) => t.type === "blockId");
+  if (token?.type === "blockId") {
+    token.raw = `^${id}`;
+    token.id = id;
+    return;
+  }
+
+  while (card.tokens[card.tokens.length - 1]?.type === "space") card.tokens.pop();
+  card.tokens.push({ type: "space", raw: " " }, { type: "blockId", raw: `^${id}`, id });
+}
+
+export function removeTag(card: Card, name: string): void {
+  let i: number;
+  while ((i = card.tokens.findIndex((t) => t.type === "tag" && t.name === name)) !== -1) {
+    removeToken(card, i);
+  }
+}
@@ -0,0 +1,151 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+// kanban.ts runs its CLI on import, so commands run in a subprocess against a scratch vault
+
+const vaults: string[] = [];
+afterAll(() => vaults.forEach((root) => rmSync(root, { recursive: true, force: true })));
+
+function makeBoard(content: string): string {
+  const root = mkdtempSync(join(tmpdir(), "kanban-test-"));
+  vaults.push(root);
+  writeFileSync(join(root, "Board.md"), content);
+  return root;
+}
+
+function kanban(vaultPath: string, ...args: string[]) {
+  const proc = Bun.spawnSync(
+    ["bun", join(import.meta.dir, "kanban.ts"), ...args, "--board", "Board.md"],
+    { env: { ...process.env, OBSIDIAN_BACKEND: "fs", OBSIDIAN_VAULT_PATH: vaultPath } },
+  );
+  const stdout = proc.stdout.toString();
+  return {
+    status: proc.exitCode,
+    json: stdout.trim() ? JSON.parse(stdout) : null,
+    stderr: proc.stderr.toString(),
+  };
+}
+
+describe("dependencies", () => {
+  test("an archived prerequisite no longer blocks its dependents", () => {
+    const vaultPath = makeBoard(`---
+kanban-plugin: board
+---
+
+## Ready
+
+- [ ] Build #agent-task ^build1
+- [ ] Deploy [depends::build1] #agent-task ^deploy1
+
+## In Progress
+
+## Done
+
+`);
+    expect(kanban(vaultPath, "claim", "--id", "build1", "--agent", "a").status).toBe(0);
+    expect(kanban(vaultPath, "complete", "--id", "build1").status).toBe(0);
+    expect(kanban(vaultPath, "archive-done").status).toBe(0);
+    expect(readFileSync(join(vaultPath, "Board.md"), "utf8")).toContain("## Archive");
+
+    const listed = kanban(vaultPath, "list", "--lane", "Ready").json;
+    expect(listed[0].blocked_by).toEqual([]);
+    const claim = kanban(vaultPath, "claim", "--id", "deploy1", "--agent", "a");
+    expect(claim.status).toBe(0);
+    expect(claim.json.success).toBe(true);
+  });
+});
+
+describe("import", () => {
+  test("rejects JSON fields and tags of the wrong type", () => {
+    const vaultPath = makeBoard("## Ready\n\n");
+    const file = join(vaultPath, "import.json");
+    for (const record of [{ fields: "oops" }, { tags: "a b" }, { tags: ["a", 1] }]) {
+      writeFileSync(file, JSON.stringify([{ title: "Card", lane: "Ready", ...record }]));
+      const result = kanban(vaultPath, "import", "--file", file);
+      expect(result.status).toBe(1);
+      expect(result.json).toMatchObject({ success: false, error: "invalid_import", record: 1 });
+    }
+    expect(readFileSync(join(vaultPath, "Board.md"), "utf8")).toBe("## Ready\n\n");
+  });
+});
+
+describe("lane rename", () => {
+  test("keeps a default role lane working under its new name", () => {
+    const vaultPath = makeBoard(`---
+kanban-plugin: board
+---
+
+## Ready
+
+- [ ] Build #agent-task ^build1
+
+## In Progress
+
+## Done
+
+`);
+    expect(kanban(vaultPath, "lane", "rename", "--name", "Ready", "--to", "Queue").status).toBe(0);
+    expect(readFileSync(join(vaultPath, "Board.md"), "utf8")).toStartWith(
+      "---\nkanban-plugin: board\nlane-ready: Queue\n---\n\n## Queue\n",
+    );
+
+    const claim = kanban(vaultPath, "claim", "--id", "build1", "--agent", "a");
+    expect(claim.json).toMatchObject({ success: true, lane: "In Progress" });
+  });
+});
+
+describe("complete", () => {
+  test("ends the lease but keeps the agent", () => {
+    const vaultPath = makeBoard(`---
+kanban-plugin: board
+---
+
+## Ready
+
+- [ ] Build #agent-task ^build1
+
+## In Progress
+
+## Done
+
+`);
+    expect(kanban(vaultPath, "claim", "--id", "build1", "--agent", "a").status).toBe(0);
+    expect(kanban(vaultPath, "complete", "--id", "build1").status).toBe(0);
+
+    const [card] = kanban(vaultPath, "list", "--lane", "Done").json;
+    expect(card.fields.agent).toBe("a");
+    expect(card.fields).not.toHaveProperty("lease_until");
+  });
+});
+
+describe("claim", () => {
+  test("reports blocked cards and dependency cycles as JSON", () => {
+    const vaultPath = makeBoard(`## Ready
+
+- [ ] Deploy [depends::build1] #agent-task ^deploy1
+- [ ] Build #agent-task ^build1
+- [ ] Ping [depends::pong1] ^ping1
+- [ ] Pong [depends::ping1] ^pong1
+
+## In Progress
+
+`);
+    const blocked = kanban(vaultPath, "claim", "--id", "deploy1", "--agent", "a");
+    expect(blocked.status).toBe(1);
+    expect(blocked.json).toMatchObject({
+      success: false,
+      error: "blocked",
+      blocked_by: ["build1"],
+    });
+
+    const cycle = kanban(vaultPath, "claim", "--id", "ping1", "--agent", "a");
+    expect(cycle.status).toBe(1);
+    expect(cycle.json).toMatchObject({
+      success: false,
+      error: "dependency_cycle",
+      cycle: ["ping1", "pong1", "ping1"],
+    });
+  });
+});
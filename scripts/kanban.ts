@@ -11,16 +11,52 @@
  * Usage: bun kanban.ts <command> [args]
  */
 
-import { $ } from "bun";
-
-const VAULT = process.env.OBSIDIAN_VAULT;
-const vaultArg = VAULT ? [`vault=${VAULT}`] : [];
+import {
+  type Card,
+  addTag,
+  cardBlockId,
+  cardFields,
+  cardTags,
+  cardText,
+  cloneCard,
+  formatField,
+  isChecked,
+  parseCard,
+  removeField,
+  removeTag,
+  serializeCard,
+  insertText,
+  setBlockId,
+  setChecked,
+  setField,
+  setText,
+  tokenize,
+} from "./kanban-card";
+import { type FSWatcher, watch } from "fs";
+import { basename, dirname, join } from "path";
+import { formatDate, parseDate } from "./dates";
+import {
+  type Task,
+  TODO_FILE,
+  completeTask,
+  isOpen,
+  parseTask,
+  setTaskField,
+  updateTasks,
+} from "./todo";
+import { createBackend, hashContent, parsePreviewFlags, withPreview } from "./vault-backend";
+
+const preview = parsePreviewFlags(process.argv.slice(2));
+const vault = withPreview(createBackend(), preview.mode);
 
 // === Data Structures ===
 
 interface KanbanItem {
   lineIndex: number;
+  lineCount: number; // header line plus indented body lines
   raw: string;
+  card: Card; // tokenised header line, edited in place by buildItemLine
+  body: string[]; // indented continuation lines (notes, subtasks), verbatim
   checked: boolean;
   text: string;
   blockId?: string;
@@ -31,67 +67,116 @@ interface KanbanItem {
 
 interface KanbanLane {
   title: string;
+  maxItems?: number; // WIP limit, from a "## Title (N)" heading
   startLine: number;
+  headerEnd: number; // first line after the heading and its **Complete** marker
   endLine: number; // exclusive
   items: KanbanItem[];
 }
 
 interface KanbanBoard {
   lanes: KanbanLane[];
+  archive: KanbanLane | null; // "## Archive" section below the "***" separator
+  archiveLine: number; // index of the "***" separator, or -1
+  settings: Record<string, unknown>; // obsidian-kanban "%% kanban:settings" JSON
+  settingsLine: number; // index of the settings block, or rawLines.length
+  frontmatter: Record<string, string>; // top-level "key: value" pairs of the YAML frontmatter
   rawLines: string[];
   boardPath: string;
+  hash: string; // content hash at read time, checked before writing
 }
 
-// === Parsing ===
+// === Errors ===
 
-function parseItem(line: string, lineIndex: number, laneTitle: string): KanbanItem | null {
-  const itemMatch = line.match(/^- \[([ x])\] (.+)$/);
-  if (!itemMatch) return null;
+/**
+ * A command precondition failed (item missing, already claimed, ...).
+ * Errors with a code are reported as JSON on stdout instead of plain stderr.
+ */
+class KanbanError extends Error {
+  constructor(
+    message: string,
+    public code?: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A precondition on one card's state failed (claimed, missing, blocked ...).
+ * On a compare-and-swap retry it becomes a conflict if another writer changed
+ * that card.
+ */
+class CardStateError extends KanbanError {
+  constructor(
+    public cardId: string,
+    message: string,
+    code?: string,
+    details: Record<string, unknown> = {},
+  ) {
+    super(message, code, details);
+  }
+}
 
-  const checked = itemMatch[1] === "x";
-  const content = itemMatch[2];
+/** The board changed on disk between readBoard and writeBoard. */
+class BoardChangedError extends Error {}
 
-  // Extract block ID at end of line
-  const blockIdMatch = content.match(/\s+\^([a-zA-Z0-9-]+)$/);
-  const blockId = blockIdMatch?.[1];
+/** A retried mutation is no longer valid against the fresh board. */
+class ConflictError extends Error {
+  constructor(
+    public boardPath: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
 
-  // Extract inline fields [key::value]
-  const fields: Record<string, string> = {};
-  const fieldRegex = /\[([^\]:]+)::([^\]]+)\]/g;
-  let fieldMatch;
-  while ((fieldMatch = fieldRegex.exec(content)) !== null) {
-    fields[fieldMatch[1].trim()] = fieldMatch[2].trim();
-  }
-
-  // Extract tags (avoid matching field-like constructs)
-  const tags: string[] = [];
-  const tagRegex = /#([\w-]+)/g;
-  let tagMatch;
-  // Strip fields first to avoid false tag matches inside [key::value]
-  const contentNoFields = content.replace(/\[[^\]:]+::[^\]]+\]/g, "");
-  while ((tagMatch = tagRegex.exec(contentNoFields)) !== null) {
-    tags.push(tagMatch[1]);
-  }
-
-  // Clean text: remove fields, block ID, tags
-  const text = content
-    .replace(/\[[^\]:]+::[^\]]+\]/g, "")
-    .replace(/\s+\^[a-zA-Z0-9-]+$/, "")
-    .replace(/#[\w-]+/g, "")
-    .replace(/\s{2,}/g, " ")
-    .trim();
+// === Parsing ===
 
-  return { lineIndex, raw: line, checked, text, blockId, fields, tags, laneTitle };
+function parseItem(line: string, lineIndex: number, laneTitle: string): KanbanItem | null {
+  const card = parseCard(line);
+  if (!card) return null;
+
+  return {
+    lineIndex,
+    lineCount: 1,
+    raw: line,
+    card,
+    body: [],
+    checked: isChecked(card),
+    text: cardText(card),
+    blockId: cardBlockId(card),
+    fields: cardFields(card),
+    tags: cardTags(card),
+    laneTitle,
+  };
 }
 
-async function readBoard(boardPath: string): Promise<KanbanBoard> {
-  const content = await $`obsidian read path=${boardPath} ${vaultArg}`.text();
-  const rawLines = content.replace(/\n$/, "").split("\n");
+/**
+ * Find where a card's indented body ends (exclusive). Blank lines count as
+ * part of the body only when more indented lines follow them.
+ */
+function findBodyEnd(lines: string[], headerIndex: number): number {
+  let end = headerIndex + 1;
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (/^\s+\S/.test(lines[i])) {
+      end = i + 1;
+    } else if (lines[i].trim() !== "") {
+      break;
+    }
+  }
+  return end;
+}
 
+/**
+ * Parse the "## " lanes between two line indexes. A heading ending in "(N)"
+ * sets the lane's WIP limit, as obsidian-kanban writes it.
+ */
+function parseLanes(rawLines: string[], start = 0, end = rawLines.length): KanbanLane[] {
   const lanes: KanbanLane[] = [];
   let currentLane: KanbanLane | null = null;
 
-  for (let i = 0; i < rawLines.length; i++) {
+  for (let i = start; i < end; i++) {
     const line = rawLines[i];
 
     const laneMatch = line.match(/^## (.+)/);
@@ -101,37 +186,211 @@ async function readBoard(boardPath: string): Promise<KanbanBoard> {
         currentLane.endLine = i;
         lanes.push(currentLane);
       }
+      const heading = laneMatch[1].trim();
+      const limitMatch = heading.match(/^(.*?)\s*\((\d+)\)$/);
       currentLane = {
-        title: laneMatch[1].trim(),
+        title: limitMatch ? limitMatch[1] : heading,
+        maxItems: limitMatch ? Number(limitMatch[2]) : undefined,
         startLine: i,
-        endLine: rawLines.length,
+        headerEnd: i + 1,
+        endLine: end,
         items: [],
       };
       continue;
     }
 
+    if (currentLane && line.trim() === "**Complete**" && currentLane.items.length === 0) {
+      currentLane.headerEnd = i + 1;
+      continue;
+    }
+
     if (currentLane) {
       const item = parseItem(line, i, currentLane.title);
-      if (item) currentLane.items.push(item);
+      if (item) {
+        const bodyEnd = Math.min(findBodyEnd(rawLines, i), end);
+        item.body = rawLines.slice(i + 1, bodyEnd);
+        item.lineCount = bodyEnd - i;
+        currentLane.items.push(item);
+        i = bodyEnd - 1;
+      }
     }
   }
 
   if (currentLane) {
-    currentLane.endLine = rawLines.length;
+    currentLane.endLine = end;
     lanes.push(currentLane);
   }
 
-  return { lanes, rawLines, boardPath };
+  return lanes;
+}
+
+/** Parse the JSON inside the trailing "%% kanban:settings" block. */
+function parseSettings(rawLines: string[], settingsLine: number): Record<string, unknown> {
+  const json = rawLines
+    .slice(settingsLine + 1)
+    .filter((l) => !l.startsWith("```") && l.trim() !== "%%")
+    .join("\n");
+  try {
+    return JSON.parse(json);
+  } catch {
+    return {};
+  }
+}
+
+/** Scalar "key: value" pairs from the leading "---" frontmatter block. */
+function parseFrontmatter(rawLines: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (rawLines[0]?.trim() !== "---") return result;
+
+  for (let i = 1; i < rawLines.length && rawLines[i].trim() !== "---"; i++) {
+    const match = rawLines[i].match(/^([\w-]+):\s*(.*?)\s*$/);
+    if (match) result[match[1]] = match[2].replace(/^(["'])(.*)\1$/, "$2");
+  }
+  return result;
+}
+
+/**
+ * Set a frontmatter property in the board's lines, adding it (and the
+ * frontmatter block, if there is none) when missing. The caller re-parses.
+ */
+function setFrontmatter(board: KanbanBoard, key: string, value: string): void {
+  const lines = board.rawLines;
+  const end =
+    lines[0]?.trim() === "---" ? lines.findIndex((l, i) => i > 0 && l.trim() === "---") : -1;
+  if (end === -1) {
+    lines.unshift("---", `${key}: ${value}`, "---", "");
+    return;
+  }
+  const index = lines.slice(0, end).findIndex((l) => l.startsWith(`${key}:`));
+  if (index !== -1) lines[index] = `${key}: ${value}`;
+  else lines.splice(end, 0, `${key}: ${value}`);
+}
+
+/**
+ * Split the board into lanes, the archive section and the settings block.
+ * The archive and settings lines are never part of a lane, so cards are not
+ * inserted into them and they are written back untouched.
+ */
+function parseBoardLines(
+  rawLines: string[],
+): Pick<
+  KanbanBoard,
+  "lanes" | "archive" | "archiveLine" | "settings" | "settingsLine" | "frontmatter"
+> {
+  let settingsLine = rawLines.findIndex((l) => l.startsWith("%% kanban:settings"));
+  if (settingsLine === -1) settingsLine = rawLines.length;
+
+  const archiveLine = rawLines.slice(0, settingsLine).findIndex((l) => l.trim() === "***");
+  const lanesEnd = archiveLine === -1 ? settingsLine : archiveLine;
+
+  return {
+    lanes: parseLanes(rawLines, 0, lanesEnd),
+    archive:
+      archiveLine === -1 ? null : parseLanes(rawLines, archiveLine + 1, settingsLine)[0] || null,
+    archiveLine,
+    settings: settingsLine < rawLines.length ? parseSettings(rawLines, settingsLine) : {},
+    settingsLine,
+    frontmatter: parseFrontmatter(rawLines),
+  };
+}
+
+/** Re-parse after rawLines changed so line indexes stay valid. */
+function refreshBoard(board: KanbanBoard): void {
+  Object.assign(board, parseBoardLines(board.rawLines));
+}
+
+async function readBoard(boardPath: string): Promise<KanbanBoard> {
+  const content = await vault.read(boardPath);
+  if (content === null) {
+    throw new Error(`Board "${boardPath}" not found`);
+  }
+  const rawLines = content.replace(/\n$/, "").split("\n");
+
+  return { ...parseBoardLines(rawLines), rawLines, boardPath, hash: hashContent(content) };
 }
 
+/**
+ * Write the board back, refusing if it changed since it was read.
+ */
 async function writeBoard(board: KanbanBoard): Promise<void> {
   const content = board.rawLines.join("\n") + "\n";
-  await $`obsidian create path=${board.boardPath} content=${content} overwrite ${vaultArg}`.quiet();
+  if (!(await vault.writeIfUnchanged(board.boardPath, content, board.hash))) {
+    throw new BoardChangedError(`Board "${board.boardPath}" changed since it was read`);
+  }
+}
+
+const MAX_WRITE_ATTEMPTS = 5;
+
+/**
+ * Read-modify-write with compare-and-swap. When another writer got there
+ * first, the mutation is re-run against the fresh board; if it then fails
+ * because that writer changed the card (e.g. claimed it meanwhile) a
+ * ConflictError is raised. Other errors keep their code.
+ */
+async function mutateBoard<T>(boardPath: string, mutate: (board: KanbanBoard) => T): Promise<T> {
+  let firstRead: string[] | null = null;
+
+  for (let attempt = 1; ; attempt++) {
+    const board = await readBoard(boardPath);
+    firstRead ??= [...board.rawLines];
+
+    let result: T;
+    try {
+      result = mutate(board);
+    } catch (error) {
+      if (
+        attempt > 1 &&
+        error instanceof CardStateError &&
+        cardChanged(firstRead, board.rawLines, error.cardId)
+      ) {
+        throw new ConflictError(boardPath, error.message);
+      }
+      throw error;
+    }
+
+    try {
+      await writeBoard(board);
+      return result;
+    } catch (error) {
+      if (!(error instanceof BoardChangedError)) throw error;
+      if (attempt >= MAX_WRITE_ATTEMPTS) {
+        throw new ConflictError(boardPath, `${error.message} (gave up after ${attempt} attempts)`);
+      }
+      // Back off with jitter so competing agents don't retry in lockstep
+      await Bun.sleep(25 * attempt + Math.random() * 50);
+    }
+  }
+}
+
+/** Whether a card's line or lane differs between two versions of a board. */
+function cardChanged(before: string[], after: string[], blockId: string): boolean {
+  const find = (rawLines: string[]) => {
+    for (const lane of parseBoardLines(rawLines).lanes) {
+      const item = lane.items.find((i) => i.blockId === blockId);
+      if (item) return `${lane.title}\n${item.raw}`;
+    }
+    return null;
+  };
+  return find(before) !== find(after);
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
 }
 
-function generateBlockId(prefix?: string): string {
-  const id = Math.random().toString(36).slice(2, 11);
-  return prefix ? `${prefix}-${id}` : id;
+/** Every card on the board, archive included, in line order. */
+function allItems(board: KanbanBoard): KanbanItem[] {
+  return [...board.lanes.flatMap((l) => l.items), ...(board.archive?.items || [])];
+}
+
+/** A random block ID not already used by any card on the board. */
+function generateBlockId(board: KanbanBoard, prefix?: string): string {
+  const taken = new Set(allItems(board).map((i) => i.blockId));
+  for (;;) {
+    const random = Math.random().toString(36).slice(2, 11);
+    const id = prefix ? `${prefix}-${random}` : random;
+    if (random.length >= 6 && !taken.has(id)) return id;
+  }
 }
 
 function findItemById(board: KanbanBoard, blockId: string): KanbanItem | null {
@@ -143,298 +402,2675 @@ function findItemById(board: KanbanBoard, blockId: string): KanbanItem | null {
   return null;
 }
 
+/** A card anywhere on the board, archive included, as dependencies may point there. */
+function findAnyItem(board: KanbanBoard, blockId: string): KanbanItem | null {
+  return allItems(board).find((i) => i.blockId === blockId) || null;
+}
+
+function requireItem(board: KanbanBoard, blockId: string): KanbanItem {
+  const item = findItemById(board, blockId);
+  if (!item) {
+    throw new CardStateError(blockId, `Item with id "${blockId}" not found`);
+  }
+  return item;
+}
+
 function findLane(board: KanbanBoard, laneTitle: string): KanbanLane | null {
   return board.lanes.find((l) => l.title.toLowerCase() === laneTitle.toLowerCase()) || null;
 }
 
 /**
- * Rebuild an item line from its components.
- * Preserves everything except specified field updates.
+ * Lanes the claim, complete and fail transitions move cards to. A board can
+ * rename them in its frontmatter, e.g. "lane-ready: Bereit".
+ */
+const DEFAULT_LANES = {
+  ready: "Ready",
+  "in-progress": "In Progress",
+  done: "Done",
+  failed: "Failed",
+};
+
+type LaneRole = keyof typeof DEFAULT_LANES;
+
+function laneName(board: Pick<KanbanBoard, "frontmatter">, role: LaneRole): string {
+  return board.frontmatter[`lane-${role}`] || DEFAULT_LANES[role];
+}
+
+function laneRole(
+  board: Pick<KanbanBoard, "frontmatter">,
+  laneTitle: string,
+): LaneRole | undefined {
+  return (Object.keys(DEFAULT_LANES) as LaneRole[]).find(
+    (role) => laneName(board, role).toLowerCase() === laneTitle.toLowerCase(),
+  );
+}
+
+/** Throw a wip_limit error if the lane cannot take another card. */
+function assertLaneCapacity(lane: KanbanLane, moving?: KanbanItem): void {
+  if (lane.maxItems === undefined) return;
+  const count = lane.items.filter((i) => i !== moving).length;
+  if (count >= lane.maxItems) {
+    throw new KanbanError(
+      `Lane "${lane.title}" is at its WIP limit (${lane.maxItems})`,
+      "wip_limit",
+      { lane: lane.title, limit: lane.maxItems, count },
+    );
+  }
+}
+
+/**
+ * Rewrite an item's header line with the given changes. Fields and tags are
+ * edited in place; every other byte of the original line is preserved.
  */
 function buildItemLine(
   item: KanbanItem,
-  updates: { fields?: Record<string, string>; tags?: string[]; checked?: boolean },
+  updates: {
+    fields?: Record<string, string>;
+    removeFields?: string[];
+    tags?: string[];
+    checked?: boolean;
+  },
 ): string {
-  const checked = updates.checked !== undefined ? updates.checked : item.checked;
-  const fields = { ...item.fields, ...updates.fields };
-  const tags = updates.tags !== undefined ? updates.tags : item.tags;
+  const card = cloneCard(item.card);
+
+  if (updates.checked !== undefined) setChecked(card, updates.checked);
+  for (const [k, v] of Object.entries(updates.fields || {})) {
+    setField(card, k, v);
+  }
+  for (const key of updates.removeFields || []) {
+    removeField(card, key);
+  }
+  if (updates.tags !== undefined) {
+    item.tags.filter((t) => !updates.tags!.includes(t)).forEach((t) => removeTag(card, t));
+    updates.tags.filter((t) => !item.tags.includes(t)).forEach((t) => addTag(card, t));
+  }
+
+  return serializeCard(card);
+}
+
+/** Where a card lands in a lane: first, last, or the Nth slot (1-based). */
+type Position = "top" | "bottom" | number;
+
+function parsePosition(raw: string): Position {
+  if (raw === "top" || raw === "bottom") return raw;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new KanbanError(`Invalid position "${raw}" (expected top, bottom or a number from 1)`);
+  }
+  return n;
+}
+
+/**
+ * Move an item, with its indented body, from its current lane to the target
+ * lane. Mutates board.rawLines in place and re-parses lanes, so items looked
+ * up afterwards have fresh line indexes.
+ */
+function moveItem(
+  board: KanbanBoard,
+  item: KanbanItem,
+  targetLaneName: string,
+  newLine: string,
+  body = item.body,
+  position: Position = "bottom",
+): void {
+  const lane = findLane(board, targetLaneName);
+  if (!lane) {
+    throw new KanbanError(`Lane "${targetLaneName}" not found`);
+  }
+  assertLaneCapacity(lane, item);
+
+  // Remove the whole card block, then locate the target lane in the shifted lines
+  board.rawLines.splice(item.lineIndex, item.lineCount);
+  refreshBoard(board);
+  const targetLane = findLane(board, targetLaneName)!;
+
+  const insertIndex = findInsertionPoint(targetLane, position);
+  board.rawLines.splice(insertIndex, 0, newLine, ...body);
+  refreshBoard(board);
+}
+
+/**
+ * Find the insertion point for a new item in a lane: before the card at the
+ * requested position, else after the last card (including its body), or
+ * right after the lane header if the lane is empty.
+ */
+function findInsertionPoint(lane: KanbanLane, position: Position = "bottom"): number {
+  const slot = position === "top" ? 1 : position;
+  const before = typeof slot === "number" ? lane.items[slot - 1] : undefined;
+  if (before) return before.lineIndex;
+
+  const last = lane.items[lane.items.length - 1];
+  return last ? last.lineIndex + last.lineCount : lane.headerEnd;
+}
+
+// === Archive ===
+
+/** Create the "***" / "## Archive" section above the settings block if missing. */
+function ensureArchive(board: KanbanBoard): KanbanLane {
+  if (board.archive) return board.archive;
+
+  if (board.archiveLine === -1) {
+    const before = board.rawLines[board.settingsLine - 1];
+    const lines = ["***", "", "## Archive", ""];
+    if (before !== undefined && before.trim() !== "") lines.unshift("");
+    board.rawLines.splice(board.settingsLine, 0, ...lines);
+  } else {
+    board.rawLines.splice(board.archiveLine + 1, 0, "", "## Archive");
+  }
+
+  refreshBoard(board);
+  return board.archive!;
+}
+
+/** Format a date with the moment.js tokens obsidian-kanban uses in its settings. */
+function formatMomentDate(date: Date, format: string): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: pad(date.getFullYear() % 100),
+    MM: pad(date.getMonth() + 1),
+    M: String(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    D: String(date.getDate()),
+    HH: pad(date.getHours()),
+    H: String(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+  return format.replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, (t) => tokens[t]);
+}
+
+/**
+ * Move a card into the archive section (newest first, as the plugin does),
+ * stamping the archive date when the board's "archive-with-date" setting is on.
+ */
+function archiveItem(board: KanbanBoard, item: KanbanItem): void {
+  const card = cloneCard(item.card);
+  if (board.settings["archive-with-date"]) {
+    const format = (board.settings["archive-date-format"] as string) || "YYYY-MM-DD HH:mm";
+    const separator = (board.settings["archive-date-separator"] as string) ?? " ";
+    const stamp = formatMomentDate(new Date(), format);
+    if (board.settings["append-archive-date"]) insertText(card, `${separator}${stamp}`, "end");
+    else insertText(card, `${stamp}${separator}`, "start");
+  }
+
+  board.rawLines.splice(item.lineIndex, item.lineCount);
+  refreshBoard(board);
+
+  const archive = ensureArchive(board);
+  board.rawLines.splice(archive.headerEnd, 0, serializeCard(card), ...item.body);
+  refreshBoard(board);
+}
+
+// === Status tag management ===
+
+const STATUS_TAGS = ["in-progress", "blocked", "complete", "failed"];
+
+function updateStatusTags(tags: string[], status: string): string[] {
+  // Remove existing status tags
+  const filtered = tags.filter((t) => !STATUS_TAGS.includes(t));
+  // Map status values to tag names
+  const tagName = status === "complete" ? "complete" : status;
+  if (STATUS_TAGS.includes(tagName)) {
+    filtered.push(tagName);
+  }
+  return filtered;
+}
+
+/** Card body with the common indentation removed. */
+function bodyText(item: KanbanItem): string {
+  const indents = item.body.filter((l) => l.trim()).map((l) => l.match(/^\s*/)![0].length);
+  const indent = indents.length ? Math.min(...indents) : 0;
+  return item.body.map((l) => l.slice(indent).trimEnd()).join("\n");
+}
+
+function countSubtasks(item: KanbanItem): { done: number; total: number } {
+  const subtasks = item.body
+    .map((l) => l.match(/^\s+[-*] \[(.)\]/))
+    .filter((m): m is RegExpMatchArray => m !== null);
+  return {
+    done: subtasks.filter((m) => m[1] !== " ").length,
+    total: subtasks.length,
+  };
+}
+
+function itemToJson(item: KanbanItem, board?: KanbanBoard) {
+  return {
+    id: item.blockId,
+    text: item.text,
+    lane: item.laneTitle,
+    checked: item.checked,
+    fields: item.fields,
+    tags: item.tags,
+    body: bodyText(item),
+    subtasks: countSubtasks(item),
+    failures: parseFailures(item),
+    ...(board && { blocked_by: unmetDependencies(board, item) }),
+  };
+}
+
+// === Dependencies ===
+
+/** Block IDs listed in [depends::a,b]; a leading ^ is tolerated. */
+function parseDependencies(item: KanbanItem): string[] {
+  const raw = item.fields.depends;
+  if (!raw) return [];
+  return raw
+    .split(/[,\s]+/)
+    .map((id) => id.replace(/^\^/, ""))
+    .filter(Boolean);
+}
+
+function isDone(item: KanbanItem): boolean {
+  return item.checked || item.fields.status === "complete";
+}
+
+/** Dependencies that are not done yet (including IDs missing from the board). */
+function unmetDependencies(board: KanbanBoard, item: KanbanItem): string[] {
+  return parseDependencies(item).filter((id) => {
+    const dep = findAnyItem(board, id);
+    return !dep || !isDone(dep);
+  });
+}
+
+/**
+ * Return the dependency cycle reachable from an item, as a list of IDs
+ * starting and ending with the same ID, or null if there is none.
+ */
+function findDependencyCycle(board: KanbanBoard, item: KanbanItem): string[] | null {
+  const path: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (current: KanbanItem): string[] | null => {
+    const id = current.blockId!;
+    const onPath = path.indexOf(id);
+    if (onPath !== -1) return [...path.slice(onPath), id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+
+    path.push(id);
+    for (const depId of parseDependencies(current)) {
+      const dep = findAnyItem(board, depId);
+      const cycle = dep?.blockId ? visit(dep) : null;
+      if (cycle) return cycle;
+    }
+    path.pop();
+    return null;
+  };
+
+  return item.blockId ? visit(item) : null;
+}
+
+/**
+ * Throw unless every dependency of the item is done and the item is not part
+ * of a dependency cycle.
+ */
+function assertClaimable(board: KanbanBoard, item: KanbanItem): void {
+  const cycle = findDependencyCycle(board, item);
+  if (cycle) {
+    throw new KanbanError(`Dependency cycle: ${cycle.join(" -> ")}`, "dependency_cycle", {
+      id: item.blockId,
+      cycle,
+    });
+  }
+  const blockedBy = unmetDependencies(board, item);
+  if (blockedBy.length > 0) {
+    throw new CardStateError(
+      item.blockId ?? "",
+      `Item "${item.blockId}" is blocked by: ${blockedBy.join(", ")}`,
+      "blocked",
+      { id: item.blockId, blocked_by: blockedBy },
+    );
+  }
+}
+
+// === History ===
+
+/**
+ * Every mutation appends one line per affected card to a log note next to
+ * the board ("Agents/Mission-Control.history.md"):
+ *
+ *   - 2026-03-01T14:05:00Z claim ^abc123def [agent::claude-1] [lane::In Progress]
+ */
+interface KanbanEvent {
+  at: string;
+  event: string;
+  id: string;
+  fields: Record<string, string>;
+}
+
+function historyPath(boardPath: string): string {
+  return boardPath.replace(/\.md$/, "") + ".history.md";
+}
+
+async function recordEvents(
+  boardPath: string,
+  events: { event: string; id?: string; fields?: Record<string, string> }[],
+): Promise<void> {
+  const at = formatTimestamp(new Date());
+  const lines = events
+    .filter((e) => e.id)
+    .map((e) => {
+      const fields = Object.entries(e.fields || {})
+        .filter(([, v]) => v)
+        .map(([k, v]) => ` ${formatField(k, v)}`)
+        .join("");
+      return `- ${at} ${e.event} ^${e.id}${fields}`;
+    });
+  if (lines.length) await vault.append(historyPath(boardPath), lines.join("\n"));
+}
+
+async function recordEvent(
+  boardPath: string,
+  event: string,
+  id: string | undefined,
+  fields: Record<string, string> = {},
+): Promise<void> {
+  await recordEvents(boardPath, [{ event, id, fields }]);
+}
+
+function parseEvent(line: string): KanbanEvent | null {
+  const match = line.match(/^- (\S+) (\S+) \^([a-zA-Z0-9-]+)(.*)$/);
+  if (!match) return null;
+
+  const fields: Record<string, string> = {};
+  for (const token of tokenize(match[4])) {
+    if (token.type === "field") fields[token.key] = token.value;
+  }
+  return { at: match[1], event: match[2], id: match[3], fields };
+}
+
+async function readHistory(boardPath: string): Promise<KanbanEvent[]> {
+  const content = await vault.read(historyPath(boardPath));
+  if (content === null) return [];
+  return content
+    .split("\n")
+    .map(parseEvent)
+    .filter((e): e is KanbanEvent => e !== null);
+}
+
+// === Leases ===
+
+const DEFAULT_LEASE_MINUTES = 30;
+
+function leaseUntil(minutes = DEFAULT_LEASE_MINUTES): string {
+  return formatTimestamp(new Date(Date.now() + minutes * 60_000));
+}
+
+function isLeaseExpired(item: KanbanItem, now = Date.now()): boolean {
+  const until = item.fields.lease_until;
+  if (!until || !item.fields.agent) return false;
+  const time = Date.parse(until);
+  return !isNaN(time) && time < now;
+}
+
+// === Retries ===
+
+/**
+ * A failed card goes back to Ready until it has used up its attempts: the
+ * card's [max_attempts::N], else the board's "max-attempts" frontmatter
+ * property, else DEFAULT_MAX_ATTEMPTS (no retry). Each retry waits twice as
+ * long as the previous one before the card can be claimed again.
+ */
+const DEFAULT_MAX_ATTEMPTS = 1;
+const DEFAULT_RETRY_BACKOFF_MINUTES = 5;
+const MAX_RETRY_BACKOFF_MINUTES = 24 * 60;
+
+function maxAttempts(board: KanbanBoard, item: KanbanItem): number {
+  const limit = parseInt(item.fields.max_attempts ?? board.frontmatter["max-attempts"]);
+  return limit > 0 ? limit : DEFAULT_MAX_ATTEMPTS;
+}
+
+function retryAfter(board: KanbanBoard, attempts: number): string {
+  const base = Number(board.frontmatter["retry-backoff"]) || DEFAULT_RETRY_BACKOFF_MINUTES;
+  const minutes = Math.min(base * 2 ** (attempts - 1), MAX_RETRY_BACKOFF_MINUTES);
+  return formatTimestamp(new Date(Date.now() + minutes * 60_000));
+}
+
+function isRetryPending(item: KanbanItem, now = Date.now()): boolean {
+  const time = Date.parse(item.fields.retry_after ?? "");
+  return !isNaN(time) && time > now;
+}
+
+/**
+ * Every failure is kept as a line in the card body:
+ *
+ *   - Failed 2026-03-01T15:00:00Z (attempt 2, claude-1): Build failed
+ */
+const FAILURE_LINE = /^\s+- Failed (\S+) \(attempt (\d+)(?:, ([^)]+))?\)(?:: (.*))?$/;
+
+function formatFailureLine(item: KanbanItem, attempt: number, reason?: string): string {
+  const indents = item.body.filter((l) => l.trim()).map((l) => l.match(/^\s*/)![0]);
+  const indent = indents.sort((a, b) => a.length - b.length)[0] || "  ";
+  const agent = item.fields.agent ? `, ${item.fields.agent}` : "";
+  const detail = reason ? `: ${reason.replace(/\s*\n\s*/g, " ")}` : "";
+  return `${indent}- Failed ${formatTimestamp(new Date())} (attempt ${attempt}${agent})${detail}`;
+}
+
+function parseFailures(
+  item: KanbanItem,
+): { at: string; attempt: number; agent?: string; reason?: string }[] {
+  return item.body
+    .map((l) => l.match(FAILURE_LINE))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map((m) => ({ at: m[1], attempt: Number(m[2]), agent: m[3], reason: m[4] }));
+}
+
+// === Claiming ===
+
+const PRIORITY_ORDER: Record<string, number> = {
+  highest: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+  lowest: 4,
+};
+
+/** Cards tagged #cap-<name> can only be claimed by agents with that capability. */
+const CAPABILITY_TAG_PREFIX = "cap-";
+
+function requiredCapabilities(item: KanbanItem): string[] {
+  return item.tags
+    .filter((t) => t.startsWith(CAPABILITY_TAG_PREFIX))
+    .map((t) => t.slice(CAPABILITY_TAG_PREFIX.length));
+}
+
+/**
+ * Pick the best unclaimed card in the Ready lane: highest priority first, then oldest
+ * (cards are appended to a lane, so earlier position means older).
+ */
+function selectNextItem(board: KanbanBoard, capabilities: string[]): KanbanItem | null {
+  const ready = findLane(board, laneName(board, "ready"));
+  if (!ready) {
+    throw new KanbanError(`Lane "${laneName(board, "ready")}" not found`);
+  }
+
+  const now = Date.now();
+  const candidates = ready.items.filter(
+    (i) =>
+      i.blockId &&
+      !i.checked &&
+      !i.fields.agent &&
+      !isRetryPending(i, now) &&
+      requiredCapabilities(i).every((cap) => capabilities.includes(cap)) &&
+      unmetDependencies(board, i).length === 0 &&
+      !findDependencyCycle(board, i),
+  );
+
+  const rank = (i: KanbanItem) => PRIORITY_ORDER[i.fields.priority?.toLowerCase()] ?? 5;
+  // Array.prototype.sort is stable, so equal priorities keep lane order
+  return candidates.sort((a, b) => rank(a) - rank(b))[0] || null;
+}
+
+/**
+ * Stamp the claim fields on an item and move it to the In Progress lane,
+ * returning that lane's title.
+ */
+function claimItem(board: KanbanBoard, item: KanbanItem, agentName: string, lease: string): string {
+  if (item.fields.agent) {
+    throw new CardStateError(
+      item.blockId ?? "",
+      `Item "${item.blockId}" already claimed by "${item.fields.agent}"`,
+      "already_claimed",
+      { id: item.blockId, agent: item.fields.agent },
+    );
+  }
+  if (isRetryPending(item)) {
+    throw new CardStateError(
+      item.blockId ?? "",
+      `Item "${item.blockId}" is waiting to retry until ${item.fields.retry_after}`,
+      "retry_pending",
+      { id: item.blockId, retry_after: item.fields.retry_after },
+    );
+  }
+  assertClaimable(board, item);
+
+  const newFields = {
+    agent: agentName,
+    status: "in-progress",
+    claimed_at: formatDate(),
+    lease_until: lease,
+  };
+
+  const newTags = updateStatusTags(item.tags, "in-progress");
+  const newLine = buildItemLine(item, {
+    fields: newFields,
+    removeFields: ["retry_after"],
+    tags: newTags,
+  });
+
+  const lane = laneName(board, "in-progress");
+  moveItem(board, item, lane, newLine);
+  return lane;
+}
+
+// === Lint ===
+
+/** Status each lane implies; cards in other lanes carry no status, or "blocked". */
+const LANE_STATUS: Partial<Record<LaneRole, string>> = {
+  "in-progress": "in-progress",
+  done: "complete",
+  failed: "failed",
+};
+
+/** Spellings people use by hand for the canonical STATUS_TAGS. */
+const STATUS_ALIASES: Record<string, string> = {
+  inprogress: "in-progress",
+  doing: "in-progress",
+  wip: "in-progress",
+  done: "complete",
+  completed: "complete",
+  fail: "failed",
+};
+
+function canonicalStatus(value: string): string | undefined {
+  const normalized = value.toLowerCase().replace(/[\s_]+/g, "-");
+  if (STATUS_TAGS.includes(normalized)) return normalized;
+  return STATUS_ALIASES[normalized.replace(/-/g, "")];
+}
+
+/** The status a card should have given its lane, or undefined for none. */
+function expectedStatus(
+  board: KanbanBoard,
+  laneTitle: string,
+  status?: string,
+): string | undefined {
+  const role = laneRole(board, laneTitle);
+  const laneStatus = role && LANE_STATUS[role];
+  if (status === "blocked" && laneStatus !== "complete" && laneStatus !== "failed") return status;
+  if (laneStatus) return laneStatus;
+  return status && Object.values(LANE_STATUS).includes(status) ? undefined : status;
+}
+
+interface LintIssue {
+  type: "missing_id" | "duplicate_id" | "outside_lane" | "unknown_status_tag" | "status_mismatch";
+  line: number; // 1-based
+  id?: string;
+  lane?: string;
+  message: string;
+  fixable: boolean;
+}
+
+/** Card-level status problems, and the status and tags that would fix them. */
+function checkStatus(
+  board: KanbanBoard,
+  item: KanbanItem,
+): {
+  issues: Omit<LintIssue, "line" | "id" | "lane" | "fixable">[];
+  status?: string;
+  tags: string[];
+} {
+  const issues: Omit<LintIssue, "line" | "id" | "lane" | "fixable">[] = [];
+  const statusTags = item.tags.filter((t) => canonicalStatus(t));
+
+  for (const tag of statusTags.filter((t) => !STATUS_TAGS.includes(t))) {
+    issues.push({
+      type: "unknown_status_tag",
+      message: `Tag #${tag} should be #${canonicalStatus(tag)}`,
+    });
+  }
+
+  const field = item.fields.status;
+  const current = field
+    ? canonicalStatus(field) || field
+    : statusTags.length
+      ? canonicalStatus(statusTags[0])
+      : undefined;
+  const status = expectedStatus(board, item.laneTitle, current);
+  const tags = updateStatusTags(
+    item.tags.filter((t) => !canonicalStatus(t)),
+    status || "",
+  );
+
+  const tagStatuses = statusTags.map((t) => canonicalStatus(t)).join();
+  if (field !== status || tagStatuses !== tags.filter((t) => canonicalStatus(t)).join()) {
+    const found = [field && `[status::${field}]`, ...statusTags.map((t) => `#${t}`)];
+    const expected = status ? `"${status}"` : "no status";
+    issues.push({
+      type: "status_mismatch",
+      message: `${found.filter(Boolean).join(" ") || "No status"} in lane "${item.laneTitle}" (expected ${expected})`,
+    });
+  }
+
+  return { issues, status, tags };
+}
+
+function lintBoard(board: KanbanBoard): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const item of allItems(board)) {
+    const at = { line: item.lineIndex + 1, id: item.blockId, lane: item.laneTitle };
+    if (!item.blockId) {
+      issues.push({
+        type: "missing_id",
+        ...at,
+        message: `Card "${item.text}" has no block ID, so agents cannot address it`,
+        fixable: true,
+      });
+    } else if (seen.has(item.blockId)) {
+      issues.push({
+        type: "duplicate_id",
+        ...at,
+        message: `Block ID "${item.blockId}" is already used by an earlier card`,
+        fixable: true,
+      });
+    } else {
+      seen.add(item.blockId);
+    }
+  }
+
+  for (const item of board.lanes.flatMap((l) => l.items)) {
+    const at = { line: item.lineIndex + 1, id: item.blockId, lane: item.laneTitle };
+    for (const issue of checkStatus(board, item).issues) {
+      issues.push({ type: issue.type, ...at, message: issue.message, fixable: true });
+    }
+  }
+
+  // Card lines that no lane parsed: above the first lane, or between "***" and "## Archive"
+  const covered = new Set<number>();
+  for (const item of allItems(board)) {
+    for (let i = item.lineIndex; i < item.lineIndex + item.lineCount; i++) covered.add(i);
+  }
+  board.rawLines.slice(0, board.settingsLine).forEach((line, i) => {
+    if (!covered.has(i) && parseCard(line)) {
+      issues.push({
+        type: "outside_lane",
+        line: i + 1,
+        id: cardBlockId(parseCard(line)!),
+        message: "Card is not under any lane heading",
+        fixable: false,
+      });
+    }
+  });
+
+  return issues.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Rewrite card header lines in place: give every card a unique block ID and
+ * bring status fields and tags in line with the lane. Returns what changed.
+ */
+function fixBoard(
+  board: KanbanBoard,
+): { line: number; id: string; before: string; after: string }[] {
+  const changes: { line: number; id: string; before: string; after: string }[] = [];
+  const laneItems = new Set(board.lanes.flatMap((l) => l.items));
+  const seen = new Set<string>();
+
+  // Header rewrites keep line indexes stable, so the items stay addressable
+  for (const item of allItems(board)) {
+    const card = cloneCard(item.card);
+
+    if (!item.blockId || seen.has(item.blockId)) {
+      setBlockId(card, generateBlockId(board));
+      // Re-parse so later cards cannot be handed the same ID
+      board.rawLines[item.lineIndex] = serializeCard(card);
+      refreshBoard(board);
+    }
+    const id = cardBlockId(card)!;
+    seen.add(id);
+
+    let after = serializeCard(card);
+    if (laneItems.has(item)) {
+      const current = parseItem(after, item.lineIndex, item.laneTitle)!;
+      const { issues, status, tags } = checkStatus(board, current);
+      if (issues.length) {
+        after = buildItemLine(current, {
+          fields: status ? { status } : {},
+          removeFields: status ? [] : ["status"],
+          tags,
+        });
+      }
+    }
+
+    if (after !== item.raw) {
+      board.rawLines[item.lineIndex] = after;
+      changes.push({ line: item.lineIndex + 1, id, before: item.raw, after });
+    }
+  }
+
+  refreshBoard(board);
+  return changes;
+}
+
+// === Watching ===
+
+interface CardSnapshot {
+  lane: string;
+  text: string;
+  checked: boolean;
+  fields: Record<string, string>;
+  tags: string[];
+}
+
+interface WatchEvent {
+  event: "added" | "removed" | "moved" | "changed";
+  id: string;
+  lane: string;
+  from?: string;
+  changes?: Record<string, { from: unknown; to: unknown }>;
+}
+
+function snapshotBoard(board: KanbanBoard): Map<string, CardSnapshot> {
+  const cards = new Map<string, CardSnapshot>();
+  for (const item of allItems(board)) {
+    if (!item.blockId || cards.has(item.blockId)) continue;
+    cards.set(item.blockId, {
+      lane: item.laneTitle,
+      text: item.text,
+      checked: item.checked,
+      fields: item.fields,
+      tags: item.tags,
+    });
+  }
+  return cards;
+}
+
+function diffSnapshots(
+  prev: Map<string, CardSnapshot>,
+  next: Map<string, CardSnapshot>,
+): WatchEvent[] {
+  const events: WatchEvent[] = [];
+
+  for (const [id, card] of next) {
+    const old = prev.get(id);
+    if (!old) {
+      events.push({ event: "added", id, lane: card.lane });
+      continue;
+    }
+    if (old.lane !== card.lane) {
+      events.push({ event: "moved", id, from: old.lane, lane: card.lane });
+    }
+
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const key of new Set([...Object.keys(old.fields), ...Object.keys(card.fields)])) {
+      if (old.fields[key] !== card.fields[key]) {
+        changes[key] = { from: old.fields[key] ?? null, to: card.fields[key] ?? null };
+      }
+    }
+    if (old.text !== card.text) changes.title = { from: old.text, to: card.text };
+    if (old.checked !== card.checked) changes.checked = { from: old.checked, to: card.checked };
+    if (old.tags.join() !== card.tags.join()) changes.tags = { from: old.tags, to: card.tags };
+    if (Object.keys(changes).length) {
+      events.push({ event: "changed", id, lane: card.lane, changes });
+    }
+  }
+
+  for (const [id, card] of prev) {
+    if (!next.has(id)) events.push({ event: "removed", id, lane: card.lane });
+  }
+  return events;
+}
+
+/** "status=complete", "lane=Done" or "checked=true" as a predicate on a card. */
+function parseUntil(raw: string): (card: CardSnapshot) => boolean {
+  const eq = raw.indexOf("=");
+  if (eq <= 0) {
+    throw new KanbanError(`Invalid --until "${raw}" (expected key=value, e.g. status=complete)`);
+  }
+  const key = raw.slice(0, eq).trim();
+  const value = raw.slice(eq + 1).trim();
+
+  if (key === "lane") return (c) => c.lane.toLowerCase() === value.toLowerCase();
+  if (key === "checked") return (c) => String(c.checked) === value;
+  return (c) => c.fields[key] === value;
+}
+
+/**
+ * Wake up when the board file changes on disk. Only the fs backend has a file
+ * to watch; on cli and rest (or if watching fails) wait() just sleeps for the
+ * given time and the caller polls through the backend.
+ */
+function watchBoardFile(boardPath: string) {
+  const vaultPath = vault.kind === "fs" ? process.env.OBSIDIAN_VAULT_PATH : undefined;
+  let watcher: FSWatcher | null = null;
+  let pending = false;
+  let wake: (() => void) | null = null;
+
+  if (vaultPath) {
+    const file = join(vaultPath, boardPath);
+    try {
+      // Watch the folder: editors often replace the file instead of writing to it
+      watcher = watch(dirname(file), (_, name) => {
+        if (name !== basename(file)) return;
+        pending = true;
+        wake?.();
+      });
+    } catch {
+      watcher = null;
+    }
+  }
+
+  return {
+    watching: watcher !== null,
+    async wait(ms: number): Promise<void> {
+      if (!pending) {
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, ms);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+      }
+      wake = null;
+      if (pending) {
+        pending = false;
+        // Give the writer a moment to finish before re-reading
+        await Bun.sleep(50);
+      }
+    },
+    close(): void {
+      watcher?.close();
+    },
+  };
+}
+
+// === Board registry ===
+
+/**
+ * Boards the cross-board commands look at. KANBAN_BOARDS lists board notes
+ * and/or folders (comma-separated); without it the whole vault is scanned.
+ * A note counts as a board when its frontmatter has "kanban-plugin".
+ */
+async function discoverBoards(): Promise<string[]> {
+  const sources = (process.env.KANBAN_BOARDS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  const boards = sources.filter((s) => s.endsWith(".md"));
+  const folders = sources.length ? sources.filter((s) => !s.endsWith(".md")) : [""];
+
+  for (const folder of folders) {
+    for (const path of await vault.list(folder.replace(/\/$/, ""))) {
+      if (path.endsWith(".history.md") || boards.includes(path)) continue;
+      const content = await vault.read(path);
+      if (content && parseFrontmatter(content.split("\n", 50))["kanban-plugin"]) {
+        boards.push(path);
+      }
+    }
+  }
+  return boards.sort();
+}
+
+/** Read every registered board, skipping notes that can no longer be read. */
+async function readAllBoards(): Promise<KanbanBoard[]> {
+  const boards: KanbanBoard[] = [];
+  for (const path of await discoverBoards()) {
+    try {
+      boards.push(await readBoard(path));
+    } catch {
+      // Deleted or unreadable since discovery
+    }
+  }
+  return boards;
+}
+
+// === Result notes ===
+
+/**
+ * Folder for result notes: the board's "results-folder" frontmatter property,
+ * else KANBAN_RESULTS_FOLDER, else "Results" next to the board.
+ */
+function resultsFolder(board: KanbanBoard): string {
+  const configured = board.frontmatter["results-folder"] || process.env.KANBAN_RESULTS_FOLDER;
+  if (configured) return configured.replace(/\/+$/, "");
+  const folder = dirname(board.boardPath);
+  return folder === "." ? "Results" : `${folder}/Results`;
+}
+
+/** "Agents/Results/abc123def Fix login flow.md", with an optional suffix before .md. */
+function resultNotePath(board: KanbanBoard, item: KanbanItem, suffix?: string): string {
+  const title = item.text
+    .replace(/[\\/:*?"<>|#^[\]]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 60)
+    .trim();
+  const name = [item.blockId, title, suffix && `(${suffix})`].filter(Boolean).join(" ");
+  return `${resultsFolder(board)}/${name}.md`;
+}
+
+/** Wikilink to a note path: "[[Agents/Results/abc123def Fix login flow]]". */
+function wikilink(path: string, anchor = ""): string {
+  return `[[${path.replace(/\.md$/, "")}${anchor}]]`;
+}
+
+function renderResultNote(
+  board: KanbanBoard,
+  item: KanbanItem,
+  status: string,
+  content: string,
+): string {
+  const frontmatter = {
+    board: wikilink(board.boardPath),
+    card: wikilink(board.boardPath, `#^${item.blockId}`),
+    id: item.blockId,
+    status,
+    agent: item.fields.agent,
+    created: formatTimestamp(new Date()),
+  };
+  const yaml = Object.entries(frontmatter)
+    .filter(([, v]) => v)
+    .map(([k, v]) => `${k}: ${JSON.stringify(v)}`);
+  return ["---", ...yaml, "---", "", `# ${item.text}`, "", content.trimEnd(), ""].join("\n");
+}
+
+/** Read --result or --result-file; at most one may be given. */
+async function loadResult(text?: string, file?: string): Promise<string | undefined> {
+  if (text && file) {
+    throw new KanbanError("Use either --result or --result-file, not both");
+  }
+  if (!file) return text;
+
+  const handle = Bun.file(file);
+  if (!(await handle.exists())) {
+    throw new KanbanError(`Result file "${file}" not found`);
+  }
+  return handle.text();
+}
+
+// === Import / Export ===
+
+/** Export/import columns; any other CSV column is an inline field. */
+const CARD_COLUMNS = ["id", "title", "lane", "checked", "tags", "body"];
+
+interface ImportRecord {
+  row: number; // 1-based record number in the file, for error messages
+  id?: string;
+  title?: string;
+  lane?: string;
+  checked?: boolean;
+  tags?: string[];
+  fields: Record<string, string | null>; // null removes the field
+  body?: string;
+}
+
+function exportCard(item: KanbanItem) {
+  return {
+    id: item.blockId,
+    title: item.text,
+    lane: item.laneTitle,
+    checked: item.checked,
+    tags: item.tags,
+    fields: item.fields,
+    body: bodyText(item),
+  };
+}
+
+function formatCsv(rows: string[][]): string {
+  const cell = (v: string) => (/[",\n\r]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  return rows.map((r) => r.map(cell).join(",")).join("\n") + "\n";
+}
+
+/** RFC 4180 CSV: quoted cells may contain commas, newlines and doubled quotes. */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+function parseChecked(value: unknown): boolean | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "boolean") return value;
+  return ["true", "x", "yes", "1"].includes(String(value).trim().toLowerCase());
+}
+
+function parseTagList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  const list = Array.isArray(value) ? value.map(String) : String(value).split(/[\s,]+/);
+  return list.map((t) => t.trim().replace(/^#/, "")).filter(Boolean);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseImportFile(content: string, format: string): ImportRecord[] {
+  if (format === "json") {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new KanbanError(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!Array.isArray(data)) {
+      throw new KanbanError("JSON import must be an array of cards");
+    }
+    return data.map((rec: unknown, i) => {
+      const invalid = (message: string) =>
+        new KanbanError(`Record ${i + 1}: ${message}`, "invalid_import", { record: i + 1 });
+      if (!isPlainObject(rec)) {
+        throw invalid(`expected an object, got ${JSON.stringify(rec)}`);
+      }
+      if (rec.fields != null && !isPlainObject(rec.fields)) {
+        throw invalid(`"fields" must be an object, got ${JSON.stringify(rec.fields)}`);
+      }
+      if (
+        rec.tags != null &&
+        !(Array.isArray(rec.tags) && rec.tags.every((t) => typeof t === "string"))
+      ) {
+        throw invalid(`"tags" must be an array of strings, got ${JSON.stringify(rec.tags)}`);
+      }
+      return {
+        row: i + 1,
+        id: rec.id ? String(rec.id) : undefined,
+        title: rec.title ? String(rec.title) : undefined,
+        lane: rec.lane ? String(rec.lane) : undefined,
+        checked: parseChecked(rec.checked),
+        tags: parseTagList(rec.tags),
+        fields: Object.fromEntries(
+          Object.entries(rec.fields || {}).map(([k, v]) => [k, v === null ? null : String(v)]),
+        ),
+        body: typeof rec.body === "string" ? rec.body : undefined,
+      };
+    });
+  }
+
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+  const columns = header.map((h) => h.trim());
+  return rows.map((cells, i) => {
+    const rec: ImportRecord = { row: i + 1, fields: {} };
+    columns.forEach((column, c) => {
+      const value = cells[c] ?? "";
+      if (!CARD_COLUMNS.includes(column)) {
+        // An empty cell clears the field, so an edited export round-trips
+        rec.fields[column] = value.trim() ? value.trim() : null;
+      } else if (column === "checked") {
+        rec.checked = parseChecked(value);
+      } else if (column === "tags") {
+        rec.tags = parseTagList(value);
+      } else if (column === "body") {
+        rec.body = value;
+      } else if (value.trim()) {
+        rec[column as "id" | "title" | "lane"] = value.trim();
+      }
+    });
+    return rec;
+  });
+}
+
+/** Body lines for a card from plain text, indented under the header line. */
+function indentBody(text: string): string[] {
+  return text.trim()
+    ? text
+        .replace(/\s+$/, "")
+        .split("\n")
+        .map((l) => (l ? `  ${l}` : ""))
+    : [];
+}
+
+/**
+ * Apply one import record: update the card with its block ID if there is one,
+ * otherwise add a new card. Returns what happened to it.
+ */
+function importRecord(
+  board: KanbanBoard,
+  rec: ImportRecord,
+  defaultLane?: string,
+): { id: string; action: "added" | "updated" | "unchanged" } {
+  const existing = rec.id ? findItemById(board, rec.id) : null;
+  if (!existing && rec.id && allItems(board).some((i) => i.blockId === rec.id)) {
+    throw new KanbanError(`Record ${rec.row}: block ID "${rec.id}" belongs to an archived card`);
+  }
+
+  if (!existing) {
+    const laneTitle = rec.lane || defaultLane;
+    if (!rec.title) throw new KanbanError(`Record ${rec.row}: new cards need a title`);
+    if (!laneTitle) throw new KanbanError(`Record ${rec.row}: no lane (add one or pass --lane)`);
+    const lane = findLane(board, laneTitle);
+    if (!lane) throw new KanbanError(`Record ${rec.row}: lane "${laneTitle}" not found`);
+    assertLaneCapacity(lane);
+
+    const id = rec.id || generateBlockId(board);
+    const fields = Object.entries(rec.fields).filter((e): e is [string, string] => e[1] !== null);
+    const tags = rec.tags || ["agent-task"];
+    const line = [
+      `- [${rec.checked ? "x" : " "}] ${rec.title}`,
+      ...fields.map(([k, v]) => formatField(k, v)),
+      ...tags.map((t) => `#${t}`),
+      `^${id}`,
+    ].join(" ");
+
+    board.rawLines.splice(findInsertionPoint(lane), 0, line, ...indentBody(rec.body || ""));
+    refreshBoard(board);
+    return { id, action: "added" };
+  }
+
+  const card = cloneCard(existing.card);
+  if (rec.title && rec.title !== existing.text) setText(card, rec.title);
+  for (const [k, v] of Object.entries(rec.fields)) {
+    if (v === null) removeField(card, k);
+    else if (existing.fields[k] !== v) setField(card, k, v);
+  }
+  if (rec.tags) {
+    existing.tags.filter((t) => !rec.tags!.includes(t)).forEach((t) => removeTag(card, t));
+    rec.tags.forEach((t) => addTag(card, t));
+  }
+  if (rec.checked !== undefined) setChecked(card, rec.checked);
+
+  const newLine = serializeCard(card);
+  const body =
+    rec.body !== undefined && rec.body.trim() !== bodyText(existing).trim()
+      ? indentBody(rec.body)
+      : existing.body;
+  const lane = rec.lane && findLane(board, rec.lane);
+  if (rec.lane && !lane) throw new KanbanError(`Record ${rec.row}: lane "${rec.lane}" not found`);
+
+  if (lane && lane.title !== existing.laneTitle) {
+    moveItem(board, existing, lane.title, newLine, body);
+  } else if (newLine !== existing.raw || body !== existing.body) {
+    board.rawLines.splice(existing.lineIndex, existing.lineCount, newLine, ...body);
+    refreshBoard(board);
+  } else {
+    return { id: existing.blockId!, action: "unchanged" };
+  }
+  return { id: existing.blockId!, action: "updated" };
+}
+
+// === Todo sync ===
+
+/**
+ * Tasks from todo.ts carrying the sync tag become cards, linked by a shared
+ * ID: the card's block ID is written to the todo as a Tasks "🆔" field.
+ * Priority and due date follow the todo; completion flows both ways.
+ */
+const DEFAULT_SYNC_TAG = "agent";
+
+const TODO_PRIORITIES = ["highest", "high", "medium", "low", "lowest"];
+
+interface TodoUpdate {
+  id: string;
+  done?: string; // completion date
+  priority?: string;
+  due?: string;
+}
+
+/**
+ * Set Tasks emoji fields on a todo line and check it off if done; a recurring
+ * todo gets its next occurrence inserted above it.
+ */
+function applyTodoUpdate(lines: string[], task: Task, update: TodoUpdate): void {
+  let updated = task.raw;
+  if (update.priority) updated = setTaskField(updated, "priority", update.priority);
+  if (update.due) updated = setTaskField(updated, "due", update.due);
+  lines[task.line] = updated;
+  if (update.done) completeTask(lines, parseTask(updated, task.line)!, update.done);
+}
+
+/**
+ * Bring one linked card in line with its todo: priority and due date are
+ * copied from the todo when it has them, and a todo that was checked off
+ * completes the card. Returns what changed on either side.
+ */
+function syncCard(
+  board: KanbanBoard,
+  task: Task,
+  item: KanbanItem,
+): { card?: "updated" | "completed"; todo?: TodoUpdate } {
+  const todo: TodoUpdate = { id: item.blockId! };
+  const fields: Record<string, string> = {};
+
+  if (task.priority && item.fields.priority !== task.priority) fields.priority = task.priority;
+  else if (!task.priority && TODO_PRIORITIES.includes(item.fields.priority)) {
+    todo.priority = item.fields.priority;
+  }
+  if (task.due && item.fields.due !== task.due) fields.due = task.due;
+  else if (!task.due && /^\d{4}-\d{2}-\d{2}$/.test(item.fields.due || ""))
+    todo.due = item.fields.due;
+
+  if (isDone(item) && isOpen(task)) {
+    todo.done = item.fields.completed_at || formatDate();
+  }
+  const hasTodoUpdate = !!(todo.done || todo.priority || todo.due);
+
+  const archived = !board.lanes.some((l) => l.items.includes(item));
+  if (archived) return hasTodoUpdate ? { todo } : {};
+
+  if (task.done && !isDone(item)) {
+    fields.status = "complete";
+    fields.completed_at = task.doneDate || formatDate();
+    const newLine = buildItemLine(item, {
+      fields,
+      tags: updateStatusTags(item.tags, "complete"),
+      checked: true,
+    });
+    moveItem(board, item, laneName(board, "done"), newLine);
+    return { card: "completed", ...(hasTodoUpdate && { todo }) };
+  }
+
+  if (Object.keys(fields).length === 0) return hasTodoUpdate ? { todo } : {};
+  board.rawLines[item.lineIndex] = buildItemLine(item, { fields });
+  refreshBoard(board);
+  return { card: "updated", ...(hasTodoUpdate && { todo }) };
+}
+
+// === Board templates ===
+
+const BOARD_TEMPLATES: Record<string, string[]> = {
+  "mission-control": ["Backlog", "Ready", "In Progress", "Blocked", "Done", "Failed"],
+  simple: ["Ready", "In Progress", "Done", "Failed"],
+};
+
+const DEFAULT_SETTINGS_BLOCK = [
+  "%% kanban:settings",
+  "```",
+  '{"kanban-plugin":"basic"}',
+  "```",
+  "%%",
+];
+
+/**
+ * Lay out an empty board the way obsidian-kanban writes one. The Done lane
+ * gets the "**Complete**" marker so the plugin checks cards dropped into it.
+ */
+function renderBoard(
+  lanes: string[],
+  frontmatter: string[] = ["kanban-plugin: basic"],
+  settings: string[] = DEFAULT_SETTINGS_BLOCK,
+): string[] {
+  const doneLane = laneName({ frontmatter: parseFrontmatter(["---", ...frontmatter]) }, "done");
+  const lines = ["---", ...frontmatter, "---", ""];
+  for (const lane of lanes) {
+    lines.push(`## ${lane}`, "");
+    if (lane.toLowerCase() === doneLane.toLowerCase()) lines.push("**Complete**", "");
+  }
+  return [...lines, "", "", ...settings];
+}
+
+/**
+ * Build board lines from a built-in template name or a template note in the
+ * vault. A template note is copied as-is unless lanes are given, in which
+ * case only its frontmatter and settings block are kept.
+ */
+async function buildBoardFromTemplate(template: string, lanes?: string[]): Promise<string[]> {
+  if (BOARD_TEMPLATES[template]) {
+    return renderBoard(lanes || BOARD_TEMPLATES[template]);
+  }
+
+  const content = await vault.read(template);
+  if (content === null) {
+    throw new KanbanError(
+      `Template "${template}" not found (expected ${Object.keys(BOARD_TEMPLATES).join(", ")} or a note path)`,
+    );
+  }
+  let rawLines = content.replace(/\n$/, "").split("\n");
+
+  // Make sure obsidian-kanban opens the result as a board
+  if (rawLines[0]?.trim() !== "---") {
+    rawLines = ["---", "kanban-plugin: basic", "---", "", ...rawLines];
+  } else if (!parseFrontmatter(rawLines)["kanban-plugin"]) {
+    rawLines.splice(1, 0, "kanban-plugin: basic");
+  }
+  if (!lanes) return rawLines;
+
+  const { settingsLine } = parseBoardLines(rawLines);
+  const frontmatterEnd = rawLines.findIndex((l, i) => i > 0 && l.trim() === "---");
+  return renderBoard(
+    lanes,
+    rawLines.slice(1, frontmatterEnd),
+    settingsLine < rawLines.length ? rawLines.slice(settingsLine) : undefined,
+  );
+}
+
+// === Commands ===
+
+/**
+ * Create a board from a template. Refuses to overwrite an existing note
+ * unless forced, and reports transition lanes the new board lacks.
+ */
+async function cmdInit(
+  boardPath: string,
+  options: { template?: string; lanes?: string[]; force?: boolean },
+): Promise<void> {
+  const template = options.template || "mission-control";
+  if (
+    options.lanes &&
+    new Set(options.lanes.map((l) => l.toLowerCase())).size !== options.lanes.length
+  ) {
+    throw new KanbanError("Lane names must be unique");
+  }
+
+  if (!options.force && (await vault.read(boardPath)) !== null) {
+    throw new KanbanError(
+      `Board "${boardPath}" already exists (use --force to overwrite)`,
+      "exists",
+      {
+        board: boardPath,
+      },
+    );
+  }
+
+  const rawLines = await buildBoardFromTemplate(template, options.lanes);
+  const board = parseBoardLines(rawLines);
+  if (board.lanes.length === 0) {
+    throw new KanbanError(`Template "${template}" has no "## " lanes`);
+  }
+  await vault.write(boardPath, rawLines.join("\n") + "\n");
+
+  const missing = (Object.keys(DEFAULT_LANES) as LaneRole[])
+    .map((role) => laneName(board, role))
+    .filter((name) => !board.lanes.some((l) => l.title.toLowerCase() === name.toLowerCase()));
+
+  console.log(
+    JSON.stringify({
+      success: true,
+      board: boardPath,
+      template,
+      lanes: board.lanes.map((l) => l.title),
+      missing_lanes: missing,
+    }),
+  );
+}
+
+function boardSummary(board: KanbanBoard) {
+  return {
+    board: board.boardPath,
+    lanes: board.lanes.map((lane) => ({
+      title: lane.title,
+      total: lane.items.length,
+      unclaimed: lane.items.filter((i) => !i.fields.agent).length,
+      ...(lane.maxItems !== undefined && { limit: lane.maxItems }),
+    })),
+    archived: board.archive?.items.length ?? 0,
+  };
+}
+
+async function cmdBoardStatus(boardPath: string): Promise<void> {
+  console.log(JSON.stringify(boardSummary(await readBoard(boardPath)), null, 2));
+}
+
+async function cmdBoards(): Promise<void> {
+  const boards = await readAllBoards();
+  console.log(JSON.stringify(boards.map(boardSummary), null, 2));
+}
+
+/** Locate a card by block ID on every registered board. */
+async function cmdFind(blockId: string): Promise<void> {
+  const matches = (await readAllBoards()).flatMap((board) => {
+    const item = findItemById(board, blockId);
+    return item ? [{ board: board.boardPath, card: itemToJson(item, board) }] : [];
+  });
+  if (matches.length === 0) {
+    throw new KanbanError(`Card "${blockId}" not found on any board`, "not_found", {
+      id: blockId,
+    });
+  }
+
+  console.log(JSON.stringify({ success: true, id: blockId, matches }, null, 2));
+}
+
+/** Cards matching the list filters, or null if the board has no such lane. */
+function selectItems(
+  board: KanbanBoard,
+  options: { lane?: string; agent?: string },
+): KanbanItem[] | null {
+  let items: KanbanItem[] = [];
+
+  if (options.lane) {
+    const lane = findLane(board, options.lane);
+    if (!lane) return null;
+    items = lane.items;
+  } else {
+    items = board.lanes.flatMap((l) => l.items);
+  }
+
+  if (options.agent) {
+    items = items.filter((i) => i.fields.agent === options.agent);
+  }
+  return items;
+}
+
+async function cmdList(
+  boardPath: string,
+  options: { lane?: string; agent?: string },
+): Promise<void> {
+  const board = await readBoard(boardPath);
+
+  const items = selectItems(board, options);
+  if (!items) {
+    console.error(`Lane "${options.lane}" not found`);
+    process.exit(1);
+  }
+
+  console.log(
+    JSON.stringify(
+      items.map((i) => itemToJson(i, board)),
+      null,
+      2,
+    ),
+  );
+}
+
+/** List across every registered board; boards without the lane are skipped. */
+async function cmdListAllBoards(options: { lane?: string; agent?: string }): Promise<void> {
+  const results = (await readAllBoards()).flatMap((board) =>
+    (selectItems(board, options) || []).map((i) => ({
+      board: board.boardPath,
+      ...itemToJson(i, board),
+    })),
+  );
+
+  console.log(JSON.stringify(results, null, 2));
+}
+
+async function cmdClaim(
+  boardPath: string,
+  blockId: string,
+  agentName: string,
+  leaseMinutes?: number,
+): Promise<void> {
+  const lease = leaseUntil(leaseMinutes);
+
+  const lane = await mutateBoard(boardPath, (board) =>
+    claimItem(board, requireItem(board, blockId), agentName, lease),
+  );
+  await recordEvent(boardPath, "claim", blockId, { agent: agentName, lane });
+
+  console.log(
+    JSON.stringify({
+      success: true,
+      id: blockId,
+      agent: agentName,
+      lane,
+      lease_until: lease,
+    }),
+  );
+}
+
+async function cmdClaimNext(
+  boardPath: string,
+  agentName: string,
+  capabilities: string[],
+  leaseMinutes?: number,
+): Promise<void> {
+  const lease = leaseUntil(leaseMinutes);
+
+  const claimed = await mutateBoard(boardPath, (board) => {
+    const item = selectNextItem(board, capabilities);
+    if (!item) return null;
+
+    claimItem(board, item, agentName, lease);
+    return findItemById(board, item.blockId!);
+  });
+
+  if (!claimed) {
+    console.log(
+      JSON.stringify({
+        success: false,
+        error: "nothing_available",
+        message: "No claimable card in Ready",
+      }),
+    );
+    process.exit(3);
+  }
+  await recordEvent(boardPath, "claim", claimed.blockId, {
+    agent: agentName,
+    lane: claimed.laneTitle,
+  });
+
+  console.log(
+    JSON.stringify({
+      success: true,
+      id: claimed.blockId,
+      agent: agentName,
+      lane: claimed.laneTitle,
+      lease_until: lease,
+      card: itemToJson(claimed),
+    }),
+  );
+}
+
+async function cmdHeartbeat(
+  boardPath: string,
+  blockId: string,
+  agentName?: string,
+  leaseMinutes?: number,
+): Promise<void> {
+  const lease = leaseUntil(leaseMinutes);
+
+  await mutateBoard(boardPath, (board) => {
+    const item = requireItem(board, blockId);
+
+    if (!item.fields.agent) {
+      throw new CardStateError(blockId, `Item "${blockId}" is not claimed`);
+    }
+    if (agentName && item.fields.agent !== agentName) {
+      throw new CardStateError(blockId, `Item "${blockId}" is claimed by "${item.fields.agent}"`);
+    }
+
+    board.rawLines[item.lineIndex] = buildItemLine(item, { fields: { lease_until: lease } });
+  });
+
+  console.log(JSON.stringify({ success: true, id: blockId, lease_until: lease }));
+}
+
+/**
+ * Return every claimed card whose lease has expired to Ready, recording the
+ * previous owner and bumping its attempt count.
+ */
+async function cmdReap(boardPath: string): Promise<void> {
+  const { lane, reaped } = await mutateBoard(boardPath, (board) => {
+    const lane = laneName(board, "ready");
+    const now = Date.now();
+    const results: {
+      id?: string;
+      previous_agent: string;
+      attempts: number;
+      lease_until: string;
+    }[] = [];
+
+    // moveItem re-parses the board, so look the next expired card up afresh each time
+    let item: KanbanItem | undefined;
+    while (
+      (item = board.lanes.flatMap((l) => l.items).find((i) => !i.checked && isLeaseExpired(i, now)))
+    ) {
+      const attempts = (parseInt(item.fields.attempts) || 0) + 1;
+      const newLine = buildItemLine(item, {
+        fields: { previous_agent: item.fields.agent, attempts: String(attempts) },
+        removeFields: ["agent", "status", "claimed_at", "lease_until"],
+        tags: updateStatusTags(item.tags, ""),
+      });
+
+      results.push({
+        id: item.blockId,
+        previous_agent: item.fields.agent,
+        attempts,
+        lease_until: item.fields.lease_until,
+      });
+      moveItem(board, item, lane, newLine);
+    }
+
+    return { lane, reaped: results };
+  });
+  await recordEvents(
+    boardPath,
+    reaped.map((r) => ({
+      event: "reap",
+      id: r.id,
+      fields: { previous_agent: r.previous_agent, attempts: String(r.attempts), lane },
+    })),
+  );
+
+  console.log(JSON.stringify({ success: true, reaped }));
+}
+
+async function cmdUpdate(
+  boardPath: string,
+  blockId: string,
+  status: string,
+  note?: string,
+): Promise<void> {
+  await mutateBoard(boardPath, (board) => {
+    const item = requireItem(board, blockId);
+
+    const newFields: Record<string, string> = { status };
+    if (note) newFields.note = note;
+
+    const newTags = updateStatusTags(item.tags, status);
+    const newLine = buildItemLine(item, { fields: newFields, tags: newTags });
+
+    // Update in place (no lane move for generic update)
+    board.rawLines[item.lineIndex] = newLine;
+  });
+
+  await recordEvent(boardPath, "update", blockId, { status, note: note || "" });
+
+  console.log(JSON.stringify({ success: true, id: blockId, status }));
+}
+
+/**
+ * Check the card and move it to Done. With a result, the text is saved as a
+ * note in the results folder and linked from the card as [result::[[note]]].
+ */
+async function cmdComplete(boardPath: string, blockId: string, result?: string): Promise<void> {
+  const { agent, lane, unblocked, note } = await mutateBoard(boardPath, (board) => {
+    const item = requireItem(board, blockId);
+    const wasBlocked = (i: KanbanItem) =>
+      !isDone(i) &&
+      parseDependencies(i).includes(blockId) &&
+      unmetDependencies(board, i).length > 0;
+    const dependents = board.lanes.flatMap((l) => l.items).filter(wasBlocked);
+
+    const newFields: Record<string, string> = {
+      status: "complete",
+      completed_at: formatDate(),
+    };
+    let note: { path: string; content: string } | null = null;
+    if (result !== undefined) {
+      const path = resultNotePath(board, item);
+      note = { path, content: renderResultNote(board, item, "complete", result) };
+      newFields.result = wikilink(path);
+    }
+    const newTags = updateStatusTags(item.tags, "complete");
+    // The lease (and any retry backoff) ends with the task; agent stays for metrics
+    const newLine = buildItemLine(item, {
+      fields: newFields,
+      removeFields: ["lease_until", "retry_after"],
+      tags: newTags,
+      checked: true,
+    });
+
+    const lane = laneName(board, "done");
+    moveItem(board, item, lane, newLine);
+
+    // Report dependents whose last unmet prerequisite was this card
+    const unblocked = dependents
+      .map((d) => findItemById(board, d.blockId!))
+      .filter((d): d is KanbanItem => !!d && unmetDependencies(board, d).length === 0)
+      .map((d) => d.blockId!);
+    return { agent: item.fields.agent, lane, unblocked, note };
+  });
+
+  if (note) await vault.write(note.path, note.content);
+  await recordEvent(boardPath, "complete", blockId, {
+    agent: agent || "",
+    lane,
+    result: note?.path || "",
+  });
+
+  console.log(
+    JSON.stringify({
+      success: true,
+      id: blockId,
+      lane,
+      unblocked,
+      ...(note && { result_note: note.path }),
+    }),
+  );
+}
+
+/**
+ * Record a failure in the card body and bump its attempts. While attempts
+ * remain (see maxAttempts) the card is released back to Ready with a
+ * retry_after backoff; otherwise it moves to Failed. A failure log is saved
+ * as a result note per attempt, like complete's result.
+ */
+async function cmdFail(
+  boardPath: string,
+  blockId: string,
+  options: { reason?: string; retry?: boolean; log?: string } = {},
+): Promise<void> {
+  const { reason, retry = true, log } = options;
+
+  const result = await mutateBoard(boardPath, (board) => {
+    const item = requireItem(board, blockId);
+    const agent = item.fields.agent;
+    const attempts = (parseInt(item.fields.attempts) || 0) + 1;
+    const limit = maxAttempts(board, item);
+    const body = [...item.body, formatFailureLine(item, attempts, reason)];
+
+    const resultFields: Record<string, string> = {};
+    let note: { path: string; content: string } | null = null;
+    if (log !== undefined) {
+      const path = resultNotePath(board, item, `failed ${attempts}`);
+      const content = [reason && `**Reason:** ${reason}`, log].filter(Boolean).join("\n\n");
+      note = { path, content: renderResultNote(board, item, "failed", content) };
+      resultFields.result = wikilink(path);
+    }
+
+    if (retry && attempts < limit) {
+      const after = retryAfter(board, attempts);
+      const fields: Record<string, string> = {
+        attempts: String(attempts),
+        retry_after: after,
+        ...resultFields,
+      };
+      if (agent) fields.previous_agent = agent;
+
+      const newLine = buildItemLine(item, {
+        fields,
+        removeFields: ["agent", "status", "claimed_at", "lease_until"],
+        tags: updateStatusTags(item.tags, ""),
+      });
+      const lane = laneName(board, "ready");
+      moveItem(board, item, lane, newLine, body);
+      return { agent, note, lane, attempts, max_attempts: limit, retry_after: after };
+    }
+
+    const newLine = buildItemLine(item, {
+      fields: { status: "failed", attempts: String(attempts), ...resultFields },
+      removeFields: ["lease_until", "retry_after"],
+      tags: updateStatusTags(item.tags, "failed"),
+    });
+    const lane = laneName(board, "failed");
+    moveItem(board, item, lane, newLine, body);
+    return { agent, note, lane, attempts, max_attempts: limit };
+  });
+
+  const { agent, note, ...outcome } = result;
+  if (note) await vault.write(note.path, note.content);
+  await recordEvent(boardPath, "fail", blockId, {
+    agent: agent || "",
+    lane: outcome.lane,
+    reason: reason || "",
+    attempts: String(outcome.attempts),
+    retry_after: outcome.retry_after || "",
+    result: note?.path || "",
+  });
+
+  console.log(
+    JSON.stringify({
+      success: true,
+      id: blockId,
+      ...outcome,
+      ...(note && { result_note: note.path }),
+    }),
+  );
+}
+
+async function cmdAddTask(
+  boardPath: string,
+  title: string,
+  laneName: string,
+  options: { priority?: string; depends?: string[]; fields?: Record<string, string> },
+): Promise<void> {
+  const blockId = await mutateBoard(boardPath, (board) => {
+    const lane = findLane(board, laneName);
+    if (!lane) {
+      throw new KanbanError(`Lane "${laneName}" not found`);
+    }
+    assertLaneCapacity(lane);
+
+    for (const depId of options.depends || []) {
+      if (!findAnyItem(board, depId)) {
+        throw new KanbanError(`Dependency "${depId}" not found`);
+      }
+    }
+
+    const blockId = generateBlockId(board);
+    const fields: Record<string, string> = { ...options.fields };
+    if (options.priority) fields.priority = options.priority;
+    if (options.depends?.length) fields.depends = options.depends.join(",");
+
+    let line = `- [ ] ${title}`;
+
+    for (const [k, v] of Object.entries(fields)) {
+      line += ` ${formatField(k, v)}`;
+    }
+
+    line += ` #agent-task ^${blockId}`;
+
+    const insertIndex = findInsertionPoint(lane);
+    board.rawLines.splice(insertIndex, 0, line);
+    return blockId;
+  });
+
+  await recordEvent(boardPath, "add", blockId, { lane: laneName, title });
+
+  console.log(JSON.stringify({ success: true, id: blockId, lane: laneName, title }));
+}
+
+/**
+ * Move a card to any lane. Its status field and tags follow the lane (as
+ * lint --fix would set them) and it is checked only in the Done lane.
+ */
+async function cmdMove(
+  boardPath: string,
+  blockId: string,
+  to: string,
+  position?: Position,
+): Promise<void> {
+  const { from, lane } = await mutateBoard(boardPath, (board) => {
+    const item = requireItem(board, blockId);
+    const lane = findLane(board, to);
+    if (!lane) {
+      throw new KanbanError(`Lane "${to}" not found`);
+    }
+
+    const { status, tags } = checkStatus(board, { ...item, laneTitle: lane.title });
+    const newLine = buildItemLine(item, {
+      fields: status ? { status } : {},
+      removeFields: status ? [] : ["status"],
+      tags,
+      checked: laneRole(board, lane.title) === "done",
+    });
+
+    moveItem(board, item, lane.title, newLine, item.body, position);
+    return { from: item.laneTitle, lane: lane.title };
+  });
+
+  await recordEvent(boardPath, "move", blockId, { from, lane });
+
+  console.log(JSON.stringify({ success: true, id: blockId, from, lane }));
+}
+
+async function cmdEdit(
+  boardPath: string,
+  blockId: string,
+  changes: {
+    title?: string;
+    set?: Record<string, string>;
+    unset?: string[];
+    addTags?: string[];
+    removeTags?: string[];
+  },
+): Promise<void> {
+  const { title, set = {}, unset = [], addTags = [], removeTags = [] } = changes;
+  if (!title && ![Object.keys(set), unset, addTags, removeTags].some((c) => c.length)) {
+    throw new KanbanError(
+      "Nothing to edit (use --title, --set, --unset, --add-tag or --remove-tag)",
+    );
+  }
+
+  const edited = await mutateBoard(boardPath, (board) => {
+    const item = requireItem(board, blockId);
+    const card = cloneCard(item.card);
+
+    if (title) setText(card, title);
+    for (const [k, v] of Object.entries(set)) setField(card, k, v);
+    unset.forEach((k) => removeField(card, k));
+    addTags.forEach((t) => addTag(card, t));
+    removeTags.forEach((t) => removeTag(card, t));
+
+    board.rawLines[item.lineIndex] = serializeCard(card);
+    refreshBoard(board);
+    return findItemById(board, blockId)!;
+  });
+
+  await recordEvent(boardPath, "edit", blockId, {
+    title: title || "",
+    set: Object.keys(set).join(","),
+    unset: unset.join(","),
+    add_tags: addTags.join(","),
+    remove_tags: removeTags.join(","),
+  });
+
+  console.log(JSON.stringify({ success: true, id: blockId, card: itemToJson(edited) }));
+}
+
+/** Delete a card and its body. Reports cards that still depend on it. */
+async function cmdDelete(boardPath: string, blockId: string): Promise<void> {
+  const { lane, dependents } = await mutateBoard(boardPath, (board) => {
+    const item = requireItem(board, blockId);
+    board.rawLines.splice(item.lineIndex, item.lineCount);
+    refreshBoard(board);
+
+    const dependents = board.lanes
+      .flatMap((l) => l.items)
+      .filter((i) => parseDependencies(i).includes(blockId))
+      .map((i) => i.blockId);
+    return { lane: item.laneTitle, dependents };
+  });
+
+  await recordEvent(boardPath, "delete", blockId, { from: lane });
+
+  console.log(JSON.stringify({ success: true, id: blockId, lane, dependents }));
+}
+
+// === Lane management ===
+
+function laneHeading(title: string, maxItems?: number): string {
+  return maxItems === undefined ? `## ${title}` : `## ${title} (${maxItems})`;
+}
+
+/** First line after the lanes: the archive separator or the settings block. */
+function lanesEnd(board: KanbanBoard): number {
+  return board.archiveLine === -1 ? board.settingsLine : board.archiveLine;
+}
+
+function requireLane(board: KanbanBoard, title: string): KanbanLane {
+  const lane = findLane(board, title);
+  if (!lane) {
+    throw new KanbanError(`Lane "${title}" not found`);
+  }
+  return lane;
+}
+
+function addLane(
+  board: KanbanBoard,
+  title: string,
+  position: Position = "bottom",
+  maxItems?: number,
+): void {
+  if (findLane(board, title)) {
+    throw new KanbanError(`Lane "${title}" already exists`);
+  }
+
+  const slot = position === "top" ? 1 : position;
+  const before = typeof slot === "number" ? board.lanes[slot - 1] : undefined;
+  const index = before ? before.startLine : lanesEnd(board);
+  const lines = [laneHeading(title, maxItems), ""];
+  const previous = board.rawLines[index - 1];
+  if (previous !== undefined && previous.trim() !== "") lines.unshift("");
+
+  board.rawLines.splice(index, 0, ...lines);
+  refreshBoard(board);
+}
+
+/** Rename a lane, keeping its WIP limit and any frontmatter lane-* setting pointing at it. */
+function renameLane(board: KanbanBoard, title: string, newTitle: string): void {
+  const lane = requireLane(board, title);
+  const existing = findLane(board, newTitle);
+  if (existing && existing !== lane) {
+    throw new KanbanError(`Lane "${newTitle}" already exists`);
+  }
 
-  let line = `- [${checked ? "x" : " "}] ${item.text}`;
+  board.rawLines[lane.startLine] = laneHeading(newTitle, lane.maxItems);
 
-  // Append fields
-  for (const [k, v] of Object.entries(fields)) {
-    line += ` [${k}::${v}]`;
-  }
+  // A role lane keeps its role under the new name, e.g. "lane-ready: Queue"
+  const role = laneRole(board, lane.title);
+  if (role) setFrontmatter(board, `lane-${role}`, newTitle);
+  refreshBoard(board);
+}
 
-  // Append tags
-  if (tags.length > 0) {
-    line += " " + tags.map((t) => `#${t}`).join(" ");
+/** Remove a lane. Its cards must be moved elsewhere first, or with moveTo. */
+function removeLane(board: KanbanBoard, title: string, moveTo?: string): void {
+  let lane = requireLane(board, title);
+  if (lane.items.length && !moveTo) {
+    throw new KanbanError(
+      `Lane "${lane.title}" has ${lane.items.length} card(s); pass --move-to <lane> to keep them`,
+      "lane_not_empty",
+      { lane: lane.title, count: lane.items.length },
+    );
   }
 
-  // Append block ID
-  if (item.blockId) {
-    line += ` ^${item.blockId}`;
+  if (moveTo) {
+    const target = requireLane(board, moveTo);
+    if (target === lane) {
+      throw new KanbanError(`Cannot move cards into the lane being removed`);
+    }
+    // moveItem re-parses the board, so look the next card up afresh each time
+    while (lane.items.length) {
+      const item = lane.items[0];
+      moveItem(board, item, target.title, item.raw);
+      lane = requireLane(board, title);
+    }
   }
 
-  return line;
+  board.rawLines.splice(lane.startLine, lane.endLine - lane.startLine);
+  refreshBoard(board);
 }
 
 /**
- * Move an item from its current lane to the target lane.
- * Mutates board.rawLines in place.
+ * Put the named lanes first, in the given order; unnamed lanes follow in
+ * their current order. Each lane keeps its lines, with one blank line after it.
  */
-function moveItem(
-  board: KanbanBoard,
-  item: KanbanItem,
-  targetLaneName: string,
-  newLine: string,
-): void {
-  const targetLane = findLane(board, targetLaneName);
-  if (!targetLane) {
-    throw new Error(`Lane "${targetLaneName}" not found`);
-  }
-
-  // Remove old line
-  board.rawLines.splice(item.lineIndex, 1);
-
-  // After removal, all lines after lineIndex shift by -1
-  // Adjust target lane boundaries
-  let insertIndex: number;
-  if (item.lineIndex < targetLane.startLine) {
-    // Item was before target lane — shift adjustments
-    const adjustedStart = targetLane.startLine - 1;
-    const adjustedEnd = targetLane.endLine - 1;
+function reorderLanes(board: KanbanBoard, order: string[]): void {
+  const named = order.map((title) => requireLane(board, title));
+  const lanes = [...new Set([...named, ...board.lanes])];
+
+  const blocks = lanes.map((lane) => {
+    const lines = board.rawLines.slice(lane.startLine, lane.endLine);
+    while (lines.length > 1 && lines[lines.length - 1].trim() === "") lines.pop();
+    return [...lines, ""];
+  });
+
+  const start = board.lanes[0].startLine;
+  board.rawLines.splice(start, lanesEnd(board) - start, ...blocks.flat());
+  refreshBoard(board);
+}
 
-    // Find last item in the (now adjusted) target lane
-    insertIndex = findInsertionPoint(board.rawLines, adjustedStart, adjustedEnd);
-  } else {
-    insertIndex = findInsertionPoint(board.rawLines, targetLane.startLine, targetLane.endLine);
+async function cmdLane(
+  boardPath: string,
+  action: string | undefined,
+  options: Record<string, string>,
+): Promise<void> {
+  const need = (name: string) => {
+    if (!options[name]) throw new KanbanError(`lane ${action} needs --${name}`);
+    return options[name];
+  };
+  const limit = options.limit ? Number(options.limit) : undefined;
+  if (limit !== undefined && !(Number.isInteger(limit) && limit >= 0)) {
+    throw new KanbanError(`Invalid --limit "${options.limit}" (expected a whole number)`);
   }
 
-  board.rawLines.splice(insertIndex, 0, newLine);
+  const lanes = await mutateBoard(boardPath, (board) => {
+    switch (action) {
+      case "add":
+        addLane(
+          board,
+          need("name"),
+          options.position ? parsePosition(options.position) : undefined,
+          limit,
+        );
+        break;
+      case "rename":
+        renameLane(board, need("name"), need("to"));
+        break;
+      case "remove":
+        removeLane(board, need("name"), options["move-to"]);
+        break;
+      case "reorder":
+        reorderLanes(
+          board,
+          need("order")
+            .split(",")
+            .map((l) => l.trim()),
+        );
+        break;
+      default:
+        throw new KanbanError(
+          `Unknown lane action "${action ?? ""}" (expected add, rename, remove or reorder)`,
+        );
+    }
+    return board.lanes.map((l) => ({
+      title: l.title,
+      total: l.items.length,
+      ...(l.maxItems !== undefined && { limit: l.maxItems }),
+    }));
+  });
+
+  console.log(JSON.stringify({ success: true, action, lanes }));
 }
 
+/** Polling fallback when the board file is watched, in case an event is missed. */
+const WATCH_FALLBACK_MS = 30_000;
+
 /**
- * Find the insertion point for a new item in a lane.
- * Inserts after the last item line in the lane, before the next ## or end.
+ * Print board changes as NDJSON until a matching change happens (or, with
+ * --until, until a card reaches the given state). Exits 3 on timeout.
  */
-function findInsertionPoint(lines: string[], laneStart: number, laneEnd: number): number {
-  let lastItemLine = laneStart + 1; // default: right after lane header
+async function cmdWatch(
+  boardPath: string,
+  options: {
+    lane?: string;
+    id?: string;
+    until?: string;
+    timeoutSeconds?: number;
+    intervalSeconds?: number;
+    follow?: boolean;
+  },
+): Promise<void> {
+  const until = options.until ? parseUntil(options.until) : null;
+  const deadline = options.timeoutSeconds ? Date.now() + options.timeoutSeconds * 1000 : Infinity;
+  const lane = options.lane?.toLowerCase();
+
+  const emit = (event: Record<string, unknown>) =>
+    console.log(JSON.stringify({ at: formatTimestamp(new Date()), ...event }));
+  const isRelevant = (e: WatchEvent) =>
+    (!options.id || e.id === options.id) &&
+    (!lane || e.lane.toLowerCase() === lane || e.from?.toLowerCase() === lane);
+  const findMatch = (cards: Map<string, CardSnapshot>) =>
+    [...cards].find(([id, card]) => (!options.id || id === options.id) && until!(card));
+
+  let cards = snapshotBoard(await readBoard(boardPath));
+  const initial = until && findMatch(cards);
+  if (initial) {
+    emit({ event: "matched", id: initial[0], lane: initial[1].lane, until: options.until });
+    return;
+  }
 
-  for (let i = laneStart + 1; i < Math.min(laneEnd, lines.length); i++) {
-    if (lines[i].match(/^- \[/)) {
-      lastItemLine = i + 1;
-    } else if (lines[i].match(/^## /)) {
-      break;
+  const file = watchBoardFile(boardPath);
+  const interval = file.watching ? WATCH_FALLBACK_MS : (options.intervalSeconds ?? 2) * 1000;
+  let timedOut = false;
+
+  try {
+    for (;;) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        timedOut = true;
+        break;
+      }
+      await file.wait(Math.min(interval, remaining));
+
+      let next: Map<string, CardSnapshot>;
+      try {
+        next = snapshotBoard(await readBoard(boardPath));
+      } catch {
+        continue; // mid-write or briefly missing; try again on the next change
+      }
+      const events = diffSnapshots(cards, next).filter(isRelevant);
+      cards = next;
+      events.forEach((e) => emit({ ...e }));
+
+      if (until) {
+        const match = findMatch(cards);
+        if (match) {
+          emit({ event: "matched", id: match[0], lane: match[1].lane, until: options.until });
+          break;
+        }
+      } else if (events.length && !options.follow) {
+        break;
+      }
     }
+  } finally {
+    file.close();
   }
 
-  return lastItemLine;
+  if (timedOut) {
+    emit({ event: "timeout", timeout: options.timeoutSeconds });
+    process.exit(3);
+  }
 }
 
-// === Status tag management ===
-
-const STATUS_TAGS = ["in-progress", "blocked", "complete", "failed"];
+async function cmdExport(boardPath: string, format = "json"): Promise<void> {
+  if (format !== "json" && format !== "csv") {
+    throw new KanbanError(`Unknown format "${format}" (expected json or csv)`);
+  }
+  const cards = (await readBoard(boardPath)).lanes.flatMap((l) => l.items).map(exportCard);
 
-function updateStatusTags(tags: string[], status: string): string[] {
-  // Remove existing status tags
-  const filtered = tags.filter((t) => !STATUS_TAGS.includes(t));
-  // Map status values to tag names
-  const tagName = status === "complete" ? "complete" : status;
-  if (STATUS_TAGS.includes(tagName)) {
-    filtered.push(tagName);
+  if (format === "json") {
+    console.log(JSON.stringify(cards, null, 2));
+    return;
   }
-  return filtered;
+
+  const fieldColumns = [...new Set(cards.flatMap((c) => Object.keys(c.fields)))].filter(
+    (k) => !CARD_COLUMNS.includes(k),
+  );
+  const rows = cards.map((c) => [
+    c.id || "",
+    c.title,
+    c.lane,
+    String(c.checked),
+    c.tags.join(" "),
+    c.body,
+    ...fieldColumns.map((k) => c.fields[k] || ""),
+  ]);
+  process.stdout.write(formatCsv([[...CARD_COLUMNS, ...fieldColumns], ...rows]));
 }
 
-// === Commands ===
+/**
+ * Add or update many cards in one board write. Records with the block ID of
+ * an existing card update it; the rest become new cards. Nothing is written
+ * if any record is invalid.
+ */
+async function cmdImport(
+  boardPath: string,
+  file: string,
+  options: { lane?: string; format?: string },
+): Promise<void> {
+  const handle = Bun.file(file);
+  if (!(await handle.exists())) {
+    throw new KanbanError(`Import file "${file}" not found`);
+  }
+  const format = options.format || (file.toLowerCase().endsWith(".csv") ? "csv" : "json");
+  if (format !== "json" && format !== "csv") {
+    throw new KanbanError(`Unknown format "${format}" (expected json or csv)`);
+  }
 
-async function cmdBoardStatus(boardPath: string): Promise<void> {
-  const board = await readBoard(boardPath);
+  const records = parseImportFile(await handle.text(), format);
+  const ids = records.map((r) => r.id).filter(Boolean);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) {
+    throw new KanbanError(`Block ID "${duplicate}" appears more than once in "${file}"`);
+  }
+  const badId = ids.find((id) => !/^[a-zA-Z0-9-]+$/.test(id!));
+  if (badId) {
+    throw new KanbanError(`Invalid block ID "${badId}" (letters, digits and "-" only)`);
+  }
 
-  const result = {
-    board: boardPath,
-    lanes: board.lanes.map((lane) => ({
-      title: lane.title,
-      total: lane.items.length,
-      unclaimed: lane.items.filter((i) => !i.fields.agent).length,
-    })),
-  };
+  const results = await mutateBoard(boardPath, (board) =>
+    records.map((rec) => importRecord(board, rec, options.lane)),
+  );
 
-  console.log(JSON.stringify(result, null, 2));
+  await recordEvents(
+    boardPath,
+    results
+      .filter((r) => r.action !== "unchanged")
+      .map((r) => ({ event: r.action === "added" ? "add" : "edit", id: r.id })),
+  );
+
+  const idsFor = (action: string) => results.filter((r) => r.action === action).map((r) => r.id);
+  console.log(
+    JSON.stringify({
+      success: true,
+      board: boardPath,
+      added: idsFor("added"),
+      updated: idsFor("updated"),
+      unchanged: idsFor("unchanged"),
+    }),
+  );
 }
 
-async function cmdList(
+/**
+ * Sync tagged todos with the board. New todos get a block ID and a card in
+ * Ready; linked pairs are reconciled by syncCard. The IDs are written to the
+ * todo file before the board, so a failed board write is repaired by the next
+ * sync instead of producing duplicate cards.
+ */
+async function cmdSync(
   boardPath: string,
-  options: { lane?: string; agent?: string },
+  options: { tag?: string; lane?: string; file?: string },
 ): Promise<void> {
-  const board = await readBoard(boardPath);
-
-  let items: KanbanItem[] = [];
-
-  if (options.lane) {
-    const lane = findLane(board, options.lane);
-    if (!lane) {
-      console.error(`Lane "${options.lane}" not found`);
-      process.exit(1);
+  const tag = options.tag || DEFAULT_SYNC_TAG;
+  const file = options.file || TODO_FILE;
+
+  const current = await readBoard(boardPath);
+
+  const { tagged, linked } = await updateTasks(file, (tasks, lines) => {
+    const tagged = tasks.filter((t) => t.tags.includes(tag));
+    const linked: string[] = [];
+    for (const task of tagged) {
+      if (task.id || !isOpen(task)) continue;
+      let id: string;
+      do id = generateBlockId(current);
+      while (tagged.some((t) => t.id === id));
+      task.id = id;
+      lines[task.line] = setTaskField(lines[task.line], "id", id);
+      linked.push(id);
     }
-    items = lane.items;
-  } else {
-    items = board.lanes.flatMap((l) => l.items);
-  }
+    return { tagged, linked };
+  });
+
+  const result = await mutateBoard(boardPath, (board) => {
+    const added: string[] = [];
+    const updated: string[] = [];
+    const completed: string[] = [];
+    const todoUpdates: TodoUpdate[] = [];
+
+    for (const task of tagged.filter((t) => t.id)) {
+      const item = allItems(board).find((i) => i.blockId === task.id);
+      if (!item) {
+        if (!isOpen(task)) continue;
+        const fields = {
+          ...(task.priority && { priority: task.priority }),
+          ...(task.due && { due: task.due }),
+        };
+        const rec: ImportRecord = { row: task.line + 1, id: task.id, title: task.text, fields };
+        added.push(importRecord(board, rec, options.lane || laneName(board, "ready")).id);
+        continue;
+      }
 
-  if (options.agent) {
-    items = items.filter((i) => i.fields.agent === options.agent);
+      const { card, todo } = syncCard(board, task, item);
+      if (card === "updated") updated.push(task.id!);
+      if (card === "completed") completed.push(task.id!);
+      if (todo) todoUpdates.push(todo);
+    }
+    return { added, updated, completed, todoUpdates };
+  });
+
+  // Re-read: the todo file may have changed while the board was written
+  if (result.todoUpdates.length) {
+    await updateTasks(file, (tasks, lines) => {
+      // Bottom-up, as a completed recurring todo inserts a line above itself
+      const targets = result.todoUpdates
+        .map((update) => ({ update, task: tasks.find((t) => t.id === update.id) }))
+        .filter((target): target is { update: TodoUpdate; task: Task } => !!target.task)
+        .sort((a, b) => b.task.line - a.task.line);
+      for (const { update, task } of targets) applyTodoUpdate(lines, task, update);
+    });
   }
 
-  const result = items.map((i) => ({
-    id: i.blockId,
-    text: i.text,
-    lane: i.laneTitle,
-    checked: i.checked,
-    fields: i.fields,
-    tags: i.tags,
-  }));
+  await recordEvents(boardPath, [
+    ...result.added.map((id) => ({ event: "add", id, fields: { todo: file } })),
+    ...result.updated.map((id) => ({ event: "edit", id, fields: { todo: file } })),
+    ...result.completed.map((id) => ({
+      event: "complete",
+      id,
+      fields: { lane: laneName(current, "done"), todo: file },
+    })),
+  ]);
 
-  console.log(JSON.stringify(result, null, 2));
+  console.log(
+    JSON.stringify({
+      success: true,
+      board: boardPath,
+      todo_file: file,
+      added: result.added,
+      updated: result.updated,
+      completed: result.completed,
+      todos_linked: linked,
+      todos_updated: result.todoUpdates.filter((u) => !u.done).map((u) => u.id),
+      todos_completed: result.todoUpdates.filter((u) => u.done).map((u) => u.id),
+    }),
+  );
 }
 
-async function cmdClaim(boardPath: string, blockId: string, agentName: string): Promise<void> {
-  const board = await readBoard(boardPath);
+async function cmdArchive(boardPath: string, blockId: string): Promise<void> {
+  await mutateBoard(boardPath, (board) => {
+    archiveItem(board, requireItem(board, blockId));
+  });
 
-  const item = findItemById(board, blockId);
-  if (!item) {
-    console.error(`Item with id "${blockId}" not found`);
-    process.exit(1);
-  }
+  await recordEvent(boardPath, "archive", blockId, { lane: "Archive" });
 
-  if (item.fields.agent) {
-    console.error(`Item "${blockId}" already claimed by "${item.fields.agent}"`);
-    process.exit(1);
+  console.log(JSON.stringify({ success: true, id: blockId, lane: "Archive" }));
+}
+
+/** Parse "7", "7d" or "2w" into a number of days. */
+function parseDays(raw: string): number {
+  const match = raw.match(/^(\d+)\s*([dw]?)$/);
+  if (!match) {
+    throw new KanbanError(`Invalid duration "${raw}" (expected e.g. 7, 7d or 2w)`);
   }
+  return Number(match[1]) * (match[2] === "w" ? 7 : 1);
+}
 
-  const newFields = {
-    agent: agentName,
-    status: "in-progress",
-    claimed_at: new Date().toISOString().split("T")[0],
-  };
+/**
+ * Archive every checked card, or only those whose completed_at is more than
+ * the given number of days ago.
+ */
+async function cmdArchiveDone(boardPath: string, olderThanDays?: number): Promise<void> {
+  const cutoff =
+    olderThanDays === undefined
+      ? undefined
+      : formatDate(new Date(Date.now() - olderThanDays * 86400000));
+
+  const archived = await mutateBoard(boardPath, (board) => {
+    const isArchivable = (i: KanbanItem) =>
+      i.checked && (!cutoff || (!!i.fields.completed_at && i.fields.completed_at < cutoff));
+
+    const ids: (string | undefined)[] = [];
+    // archiveItem re-parses the board, so look the next card up afresh each time
+    let item: KanbanItem | undefined;
+    while ((item = board.lanes.flatMap((l) => l.items).find(isArchivable))) {
+      ids.push(item.blockId);
+      archiveItem(board, item);
+    }
+    return ids;
+  });
 
-  const newTags = updateStatusTags(item.tags, "in-progress");
-  const newLine = buildItemLine(item, { fields: newFields, tags: newTags });
+  await recordEvents(
+    boardPath,
+    archived.map((id) => ({ event: "archive", id, fields: { lane: "Archive" } })),
+  );
+
+  console.log(JSON.stringify({ success: true, archived }));
+}
 
-  moveItem(board, item, "In Progress", newLine);
-  await writeBoard(board);
+async function cmdHistory(boardPath: string, blockId?: string): Promise<void> {
+  const events = await readHistory(boardPath);
+  const timeline = blockId ? events.filter((e) => e.id === blockId) : events;
 
   console.log(
-    JSON.stringify({ success: true, id: blockId, agent: agentName, lane: "In Progress" }),
+    JSON.stringify(
+      timeline.map((e) => ({ at: e.at, event: e.event, id: e.id, ...e.fields })),
+      null,
+      2,
+    ),
   );
 }
 
-async function cmdUpdate(
-  boardPath: string,
-  blockId: string,
-  status: string,
-  note?: string,
-): Promise<void> {
-  const board = await readBoard(boardPath);
-
-  const item = findItemById(board, blockId);
-  if (!item) {
-    console.error(`Item with id "${blockId}" not found`);
-    process.exit(1);
+async function cmdLint(boardPath: string, fix: boolean): Promise<void> {
+  if (!fix) {
+    const issues = lintBoard(await readBoard(boardPath));
+    console.log(
+      JSON.stringify(
+        { success: true, board: boardPath, clean: issues.length === 0, issues },
+        null,
+        2,
+      ),
+    );
+    return;
   }
 
-  const newFields: Record<string, string> = { status };
-  if (note) newFields.note = note;
+  const { fixed, issues } = await mutateBoard(boardPath, (board) => ({
+    fixed: fixBoard(board),
+    issues: lintBoard(board),
+  }));
+  await recordEvents(
+    boardPath,
+    fixed.map((c) => ({ event: "fix", id: c.id })),
+  );
+
+  console.log(
+    JSON.stringify(
+      { success: true, board: boardPath, clean: issues.length === 0, fixed, issues },
+      null,
+      2,
+    ),
+  );
+}
 
-  const newTags = updateStatusTags(item.tags, status);
-  const newLine = buildItemLine(item, { fields: newFields, tags: newTags });
+// === Metrics ===
 
-  // Update in place (no lane move for generic update)
-  board.rawLines[item.lineIndex] = newLine;
-  await writeBoard(board);
+interface CardFlow {
+  added?: string;
+  claimed?: string;
+  completed?: string;
+  agent?: string;
+}
 
-  console.log(JSON.stringify({ success: true, id: blockId, status }));
+interface DurationStats {
+  count: number;
+  min?: number;
+  p50?: number;
+  p85?: number;
+  max?: number;
+  mean?: number;
 }
 
-async function cmdComplete(boardPath: string, blockId: string): Promise<void> {
-  const board = await readBoard(boardPath);
+const HOUR_MS = 3600000;
 
-  const item = findItemById(board, blockId);
-  if (!item) {
-    console.error(`Item with id "${blockId}" not found`);
-    process.exit(1);
-  }
+function hoursBetween(from: string, to: string): number {
+  return (Date.parse(to) - Date.parse(from)) / HOUR_MS;
+}
 
-  const newFields = {
-    status: "complete",
-    completed_at: new Date().toISOString().split("T")[0],
+function summarize(values: number[]): DurationStats {
+  if (!values.length) return { count: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const round = (n: number) => Math.round(n * 10) / 10;
+  const percentile = (p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+  return {
+    count: sorted.length,
+    min: round(sorted[0]),
+    p50: round(percentile(0.5)),
+    p85: round(percentile(0.85)),
+    max: round(sorted[sorted.length - 1]),
+    mean: round(sorted.reduce((a, b) => a + b, 0) / sorted.length),
   };
-  const newTags = updateStatusTags(item.tags, "complete");
-  const newLine = buildItemLine(item, { fields: newFields, tags: newTags, checked: true });
+}
 
-  moveItem(board, item, "Done", newLine);
-  await writeBoard(board);
+/** ISO 8601 week key, e.g. "2026-W09". */
+function isoWeek(date: string): string {
+  const d = new Date(date.slice(0, 10) + "T00:00:00Z");
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day);
+  const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((d.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${d.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
 
-  console.log(JSON.stringify({ success: true, id: blockId, lane: "Done" }));
+/** The calendar day after a YYYY-MM-DD date. */
+function nextDay(date: string): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + 86400000).toISOString().slice(0, 10);
 }
 
-async function cmdFail(boardPath: string, blockId: string, reason?: string): Promise<void> {
-  const board = await readBoard(boardPath);
+function countBy<T>(items: T[], key: (item: T) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const item of items) counts[key(item)] = (counts[key(item)] || 0) + 1;
+  return Object.fromEntries(Object.entries(counts).sort(([a], [b]) => a.localeCompare(b)));
+}
 
-  const item = findItemById(board, blockId);
-  if (!item) {
-    console.error(`Item with id "${blockId}" not found`);
-    process.exit(1);
+/**
+ * Replay the history log (falling back to claimed_at / completed_at on cards
+ * that predate it) into flow metrics. Times are in hours.
+ */
+function computeMetrics(board: KanbanBoard, events: KanbanEvent[], since?: string) {
+  const flows = new Map<string, CardFlow>();
+  const flow = (id: string) => flows.get(id) || flows.set(id, {}).get(id)!;
+  const failures: { at: string; agent?: string }[] = [];
+  const wipByDay: Record<string, number> = {};
+  const inProgress = new Set<string>();
+
+  for (const e of [...events].sort((a, b) => a.at.localeCompare(b.at))) {
+    const f = flow(e.id);
+    switch (e.event) {
+      case "add":
+        f.added = e.at;
+        break;
+      case "claim":
+        f.claimed = e.at;
+        f.agent = e.fields.agent;
+        inProgress.add(e.id);
+        break;
+      case "complete":
+        f.completed = e.at;
+        f.agent = e.fields.agent || f.agent;
+        inProgress.delete(e.id);
+        break;
+      case "fail":
+        failures.push({ at: e.at, agent: e.fields.agent || f.agent });
+        inProgress.delete(e.id);
+        break;
+      case "reap":
+      case "archive":
+        inProgress.delete(e.id);
+        break;
+    }
+    wipByDay[e.at.slice(0, 10)] = inProgress.size;
   }
 
-  const newFields: Record<string, string> = { status: "failed" };
-  if (reason) newFields.reason = reason;
+  const cards = allItems(board);
+  for (const item of cards) {
+    if (!item.blockId || !item.fields.completed_at || flows.get(item.blockId)?.completed) continue;
+    Object.assign(flow(item.blockId), {
+      claimed: item.fields.claimed_at,
+      completed: item.fields.completed_at,
+      agent: item.fields.agent,
+    });
+  }
 
-  const newTags = updateStatusTags(item.tags, "failed");
-  const newLine = buildItemLine(item, { fields: newFields, tags: newTags });
+  const inRange = (at?: string) => !!at && (!since || at.slice(0, 10) >= since);
+  const completed = [...flows.values()].filter((f) => inRange(f.completed));
+  const failed = failures.filter((f) => inRange(f.at));
+
+  const agents: Record<string, { completed: number; failed: number }> = {};
+  const agentStats = (name = "(unassigned)") => (agents[name] ||= { completed: 0, failed: 0 });
+  completed.forEach((f) => agentStats(f.agent).completed++);
+  failed.forEach((f) => agentStats(f.agent).failed++);
+
+  // Every day from the first event (or --since) to today; quiet days keep the previous WIP
+  const wip: Record<string, number> = {};
+  const days = Object.keys(wipByDay);
+  if (days.length) {
+    const today = new Date().toISOString().slice(0, 10);
+    let current = 0;
+    for (let day = since && since < days[0] ? since : days[0]; day <= today; day = nextDay(day)) {
+      current = wipByDay[day] ?? current;
+      if (inRange(day)) wip[day] = current;
+    }
+  }
 
-  moveItem(board, item, "Failed", newLine);
-  await writeBoard(board);
+  const finished = completed.length + failed.length;
+  return {
+    board: board.boardPath,
+    since: since || null,
+    completed: completed.length,
+    failed: failed.length,
+    failure_rate: finished ? Math.round((failed.length / finished) * 1000) / 1000 : null,
+    lead_time_hours: summarize(
+      completed.filter((f) => f.added).map((f) => hoursBetween(f.added!, f.completed!)),
+    ),
+    cycle_time_hours: summarize(
+      completed.filter((f) => f.claimed).map((f) => hoursBetween(f.claimed!, f.completed!)),
+    ),
+    throughput: {
+      daily: countBy(completed, (f) => f.completed!.slice(0, 10)),
+      weekly: countBy(completed, (f) => isoWeek(f.completed!)),
+    },
+    wip,
+    agents,
+  };
+}
 
-  console.log(JSON.stringify({ success: true, id: blockId, lane: "Failed" }));
+type Metrics = ReturnType<typeof computeMetrics>;
+
+function formatMetricsMarkdown(m: Metrics): string {
+  const stat = (s: DurationStats) =>
+    s.count ? `${s.count} | ${s.p50} | ${s.p85} | ${s.mean} | ${s.min} | ${s.max}` : "0 | | | | |";
+  const table = (header: string, rows: Record<string, number>) => [
+    `| ${header} | Count |`,
+    "| --- | --- |",
+    ...Object.entries(rows).map(([k, v]) => `| ${k} | ${v} |`),
+  ];
+
+  return [
+    `# Kanban Metrics: ${m.board}`,
+    "",
+    `Generated: ${formatTimestamp(new Date())}${m.since ? ` (since ${m.since})` : ""}`,
+    "",
+    "## Summary",
+    "",
+    `- Completed: ${m.completed}`,
+    `- Failed: ${m.failed}`,
+    `- Failure rate: ${m.failure_rate === null ? "n/a" : `${Math.round(m.failure_rate * 100)}%`}`,
+    "",
+    "## Lead and Cycle Time (hours)",
+    "",
+    "| Measure | Count | p50 | p85 | Mean | Min | Max |",
+    "| --- | --- | --- | --- | --- | --- | --- |",
+    `| Lead time | ${stat(m.lead_time_hours)} |`,
+    `| Cycle time | ${stat(m.cycle_time_hours)} |`,
+    "",
+    "## Throughput per Week",
+    "",
+    ...table("Week", m.throughput.weekly),
+    "",
+    "## Throughput per Day",
+    "",
+    ...table("Day", m.throughput.daily),
+    "",
+    "## WIP (end of day)",
+    "",
+    ...table("Day", m.wip),
+    "",
+    "## Agents",
+    "",
+    "| Agent | Completed | Failed |",
+    "| --- | --- | --- |",
+    ...Object.entries(m.agents).map(([name, a]) => `| ${name} | ${a.completed} | ${a.failed} |`),
+    "",
+  ].join("\n");
 }
 
-async function cmdAddTask(
+async function cmdMetrics(
   boardPath: string,
-  title: string,
-  laneName: string,
-  options: { priority?: string; fields?: Record<string, string> },
+  options: { since?: string; format?: string; write?: string },
 ): Promise<void> {
-  const board = await readBoard(boardPath);
-
-  const lane = findLane(board, laneName);
-  if (!lane) {
-    console.error(`Lane "${laneName}" not found`);
-    process.exit(1);
+  if (options.since && !/^\d{4}-\d{2}-\d{2}$/.test(options.since)) {
+    throw new KanbanError(`Invalid --since "${options.since}" (expected YYYY-MM-DD)`);
   }
-
-  const blockId = generateBlockId();
-  const fields: Record<string, string> = { ...options.fields };
-  if (options.priority) fields.priority = options.priority;
-
-  let line = `- [ ] ${title}`;
-
-  for (const [k, v] of Object.entries(fields)) {
-    line += ` [${k}::${v}]`;
+  const format = options.format || "json";
+  if (format !== "json" && format !== "markdown") {
+    throw new KanbanError(`Invalid --format "${format}" (expected json or markdown)`);
   }
 
-  line += ` #agent-task ^${blockId}`;
+  const board = await readBoard(boardPath);
+  const metrics = computeMetrics(board, await readHistory(boardPath), options.since);
 
-  const insertIndex = findInsertionPoint(board.rawLines, lane.startLine, lane.endLine);
-  board.rawLines.splice(insertIndex, 0, line);
-  await writeBoard(board);
+  if (options.write) {
+    await vault.write(options.write, formatMetricsMarkdown(metrics));
+  }
 
-  console.log(JSON.stringify({ success: true, id: blockId, lane: laneName, title }));
+  if (format === "markdown") {
+    console.log(formatMetricsMarkdown(metrics));
+  } else {
+    console.log(
+      JSON.stringify({ ...metrics, ...(options.write && { report: options.write }) }, null, 2),
+    );
+  }
 }
 
 // === CLI ===
 
+// Options that take no value; every other option takes the next argument as is
+const SWITCHES = new Set(["no-retry", "fix", "force", "follow", "all-boards"]);
+
 function parseArgs(argv: string[]): { positional: string[]; options: Record<string, string> } {
   const positional: string[] = [];
   const options: Record<string, string> = {};
@@ -442,7 +3078,7 @@ function parseArgs(argv: string[]): { positional: string[]; options: Record<stri
   for (let i = 0; i < argv.length; i++) {
     if (argv[i].startsWith("--")) {
       const key = argv[i].slice(2);
-      options[key] = argv[++i] || "";
+      options[key] = SWITCHES.has(key) ? "true" : (argv[++i] ?? "");
     } else {
       positional.push(argv[i]);
     }
@@ -451,20 +3087,23 @@ function parseArgs(argv: string[]): { positional: string[]; options: Record<stri
   return { positional, options };
 }
 
+/** key=val,... pairs; a due date may be written as "friday", "+2w", "eom", ... */
 function parseFieldsArg(raw: string): Record<string, string> {
   const result: Record<string, string> = {};
   for (const pair of raw.split(",")) {
     const eqIdx = pair.indexOf("=");
     if (eqIdx > 0) {
-      result[pair.slice(0, eqIdx).trim()] = pair.slice(eqIdx + 1).trim();
+      const key = pair.slice(0, eqIdx).trim();
+      const value = pair.slice(eqIdx + 1).trim();
+      result[key] = key === "due" ? parseDate(value) : value;
     }
   }
   return result;
 }
 
-const argv = process.argv.slice(2);
+const argv = preview.args;
 const command = argv[0];
-const { options } = parseArgs(argv.slice(1));
+const { positional, options } = parseArgs(argv.slice(1));
 
 function requireOption(name: string): string {
   const val = options[name];
@@ -475,20 +3114,176 @@ function requireOption(name: string): string {
   return val;
 }
 
+/** A numeric option that must be a positive number; undefined when not given. */
+function positiveOption(name: string, unit: string): number | undefined {
+  const raw = options[name];
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!raw.trim() || !Number.isFinite(value) || value <= 0) {
+    throw new KanbanError(
+      `Invalid --${name} "${raw}" (expected a positive number of ${unit})`,
+      "invalid_option",
+      { option: name, value: raw },
+    );
+  }
+  return value;
+}
+
 const commands: Record<string, () => Promise<void>> = {
+  async init() {
+    await cmdInit(requireOption("board"), {
+      template: options.template,
+      lanes: options.lanes
+        ? options.lanes
+            .split(",")
+            .map((l) => l.trim())
+            .filter(Boolean)
+        : undefined,
+      force: options.force === "true",
+    });
+  },
+
   async "board-status"() {
     await cmdBoardStatus(requireOption("board"));
   },
 
   async list() {
-    await cmdList(requireOption("board"), {
+    const filters = { lane: options.lane, agent: options.agent };
+    if (options["all-boards"] === "true") {
+      await cmdListAllBoards(filters);
+    } else {
+      await cmdList(requireOption("board"), filters);
+    }
+  },
+
+  async boards() {
+    await cmdBoards();
+  },
+
+  async find() {
+    await cmdFind(requireOption("id"));
+  },
+
+  async claim() {
+    await cmdClaim(
+      requireOption("board"),
+      requireOption("id"),
+      requireOption("agent"),
+      positiveOption("lease", "minutes"),
+    );
+  },
+
+  async "claim-next"() {
+    await cmdClaimNext(
+      requireOption("board"),
+      requireOption("agent"),
+      options.capabilities ? options.capabilities.split(",").map((c) => c.trim()) : [],
+      positiveOption("lease", "minutes"),
+    );
+  },
+
+  async heartbeat() {
+    await cmdHeartbeat(
+      requireOption("board"),
+      requireOption("id"),
+      options.agent,
+      positiveOption("lease", "minutes"),
+    );
+  },
+
+  async metrics() {
+    await cmdMetrics(requireOption("board"), {
+      since: options.since,
+      format: options.format,
+      write: options.write,
+    });
+  },
+
+  async history() {
+    await cmdHistory(requireOption("board"), options.id);
+  },
+
+  async move() {
+    await cmdMove(
+      requireOption("board"),
+      requireOption("id"),
+      requireOption("to"),
+      options.position ? parsePosition(options.position) : undefined,
+    );
+  },
+
+  async edit() {
+    const list = (raw?: string) =>
+      raw
+        ? raw
+            .split(",")
+            .map((v) => v.trim().replace(/^#/, ""))
+            .filter(Boolean)
+        : [];
+    await cmdEdit(requireOption("board"), requireOption("id"), {
+      title: options.title,
+      set: options.set ? parseFieldsArg(options.set) : {},
+      unset: list(options.unset),
+      addTags: list(options["add-tag"]),
+      removeTags: list(options["remove-tag"]),
+    });
+  },
+
+  async delete() {
+    await cmdDelete(requireOption("board"), requireOption("id"));
+  },
+
+  async lane() {
+    await cmdLane(requireOption("board"), positional[0], options);
+  },
+
+  async watch() {
+    await cmdWatch(requireOption("board"), {
       lane: options.lane,
-      agent: options.agent,
+      id: options.id,
+      until: options.until,
+      timeoutSeconds: positiveOption("timeout", "seconds"),
+      intervalSeconds: positiveOption("interval", "seconds"),
+      follow: options.follow === "true",
     });
   },
 
-  async claim() {
-    await cmdClaim(requireOption("board"), requireOption("id"), requireOption("agent"));
+  async export() {
+    await cmdExport(requireOption("board"), options.format);
+  },
+
+  async import() {
+    await cmdImport(requireOption("board"), requireOption("file"), {
+      lane: options.lane,
+      format: options.format,
+    });
+  },
+
+  async sync() {
+    await cmdSync(requireOption("board"), {
+      tag: options.tag,
+      lane: options.lane,
+      file: options.file,
+    });
+  },
+
+  async archive() {
+    await cmdArchive(requireOption("board"), requireOption("id"));
+  },
+
+  async "archive-done"() {
+    await cmdArchiveDone(
+      requireOption("board"),
+      options["older-than"] ? parseDays(options["older-than"]) : undefined,
+    );
+  },
+
+  async lint() {
+    await cmdLint(requireOption("board"), options.fix === "true");
+  },
+
+  async reap() {
+    await cmdReap(requireOption("board"));
   },
 
   async update() {
@@ -501,17 +3296,26 @@ const commands: Record<string, () => Promise<void>> = {
   },
 
   async complete() {
-    await cmdComplete(requireOption("board"), requireOption("id"));
+    await cmdComplete(
+      requireOption("board"),
+      requireOption("id"),
+      await loadResult(options.result, options["result-file"]),
+    );
   },
 
   async fail() {
-    await cmdFail(requireOption("board"), requireOption("id"), options.reason);
+    await cmdFail(requireOption("board"), requireOption("id"), {
+      reason: options.reason,
+      retry: options["no-retry"] !== "true",
+      log: await loadResult(options.result, options["result-file"]),
+    });
   },
 
   async "add-task"() {
     const extraFields = options.fields ? parseFieldsArg(options.fields) : {};
     await cmdAddTask(requireOption("board"), requireOption("title"), requireOption("lane"), {
       priority: options.priority,
+      depends: options.depends ? options.depends.split(",").map((d) => d.trim()) : undefined,
       fields: extraFields,
     });
   },
@@ -524,39 +3328,180 @@ Kanban CLI - Agent Mission Control
 Usage: bun kanban.ts <command> [args]
 
 Commands:
+  init          --board <path>  [--template mission-control|simple|<note path>]
+                [--lanes a,b,c]  [--force]
+      Create a board with kanban-plugin frontmatter, lanes and a settings block.
+      mission-control (default): Backlog, Ready, In Progress, Blocked, Done, Failed;
+      simple: Ready, In Progress, Done, Failed. A note path copies that note
+      (--lanes keeps only its frontmatter and settings). Refuses to overwrite
+      an existing note unless --force; reports missing_lanes the claim/complete/
+      fail transitions need
+
   board-status  --board <path>
       Show lane summary with item counts
 
-  list          --board <path>  [--lane <name>]  [--agent <name>]
-      List items as JSON (optionally filtered)
+  list          --board <path> | --all-boards  [--lane <name>]  [--agent <name>]
+      List items as JSON (optionally filtered), with card body, subtask counts
+      and unmet dependencies in blocked_by. --all-boards lists every registered
+      board, adding "board" to each card
+
+  boards
+      Lane summaries for every registered board (see KANBAN_BOARDS)
+
+  find          --id <blockId>
+      Locate a card on any registered board
+
+  claim         --board <path>  --id <blockId>  --agent <name>  [--lease <minutes>]
+      Claim a task from the Ready lane and move it to In Progress (not before
+      its retry_after time).
+      The claim is a lease (default 30 minutes) recorded as [lease_until::...]
+
+  claim-next    --board <path>  --agent <name>  [--capabilities a,b]  [--lease <minutes>]
+      Claim the best unclaimed Ready card (priority, then age) whose #cap-* tags
+      are all in --capabilities. Exits 3 with "nothing_available" if none
 
-  claim         --board <path>  --id <blockId>  --agent <name>
-      Claim a task from the Ready lane and move it to In Progress
+  heartbeat     --board <path>  --id <blockId>  [--agent <name>]  [--lease <minutes>]
+      Extend the lease on a claimed task
+
+  reap          --board <path>
+      Move cards with expired leases back to Ready (records previous_agent, bumps attempts)
 
   update        --board <path>  --id <blockId>  --status <value>  [--note <text>]
       Update status field (and status tag) on an item in place
 
-  complete      --board <path>  --id <blockId>
-      Mark item done and move to Done lane
-
-  fail          --board <path>  --id <blockId>  [--reason <text>]
-      Mark item failed and move to Failed lane
+  complete      --board <path>  --id <blockId>  [--result <text> | --result-file <path>]
+      Mark item done and move to Done lane. Reports cards it unblocked.
+      A result is saved as a note in the results folder and linked from the
+      card as [result::[[note]]]
+
+  fail          --board <path>  --id <blockId>  [--reason <text>]  [--no-retry]
+                [--result <text> | --result-file <path>]
+      Log the failure in the card body and bump [attempts::N]. While attempts
+      remain ([max_attempts::N], or "max-attempts" in the board frontmatter;
+      default 1) the card returns to Ready with a [retry_after::...] backoff,
+      otherwise it moves to Failed. --no-retry goes straight to Failed.
+      A result (failure log) is saved as a note per attempt and linked as [result::...]
+
+  move          --board <path>  --id <blockId>  --to <lane>  [--position top|bottom|N]
+      Move a card to any lane (default: bottom). Its status field/tags follow
+      the lane and it is checked only in the Done lane
+
+  edit          --board <path>  --id <blockId>  [--title <text>]  [--set key=val,...]
+                [--unset key,...]  [--add-tag a,b]  [--remove-tag a,b]
+      Edit a card's title, fields and tags in place. A due= value may be a
+      natural date like friday, +2w or eom (as for todo add --due)
+
+  delete        --board <path>  --id <blockId>
+      Delete a card and its body. Reports cards that still depend on it
+
+  lane add      --board <path>  --name <lane>  [--position top|bottom|N]  [--limit <n>]
+  lane rename   --board <path>  --name <lane>  --to <new name>
+  lane remove   --board <path>  --name <lane>  [--move-to <lane>]
+  lane reorder  --board <path>  --order <lane>,<lane>,...
+      Manage lanes. remove refuses a lane with cards unless --move-to is given;
+      reorder puts the named lanes first and keeps the rest in order
+
+  watch         --board <path>  [--lane <name>]  [--id <blockId>]  [--until key=value]
+                [--timeout <seconds>]  [--interval <seconds>]  [--follow]
+      Block until a matching card is added, moved, changed or removed, printing
+      each change as a JSON line. --until waits for a card (--id, else any) to
+      reach a state: status=complete, lane=Done, checked=true. --follow keeps
+      streaming. Watches the file on the fs backend, else polls the board
+      every --interval seconds (default 2). Exits 3 on timeout
+
+  export        --board <path>  [--format json|csv]
+      Print every card (id, title, lane, checked, tags, body, fields); CSV
+      has one column per field
+
+  import        --board <path>  --file <tasks.json|tasks.csv>  [--lane <name>]  [--format json|csv]
+      Add or update many cards in a single write. Cards whose id exists on
+      the board are updated (moved if lane differs; empty CSV cells clear
+      fields), the rest are added to their lane or --lane
+
+  sync          --board <path>  [--tag agent]  [--lane <name>]  [--file <todo note>]
+      Sync todo.ts tasks tagged #agent (or --tag) with the board. Open tasks
+      without an ID get a card in Ready (or --lane) and a Tasks "🆔 <blockId>"
+      linking the two. Priority (⏫🔼🔽) and due date (📅) are copied to
+      [priority::] and [due::], or back to the task if it has none. A
+      completed card checks the task off with ✅; a checked-off task completes
+      the card. Running it again changes nothing. --file defaults to OBSIDIAN_TODO_FILE
+
+  metrics       --board <path>  [--since YYYY-MM-DD]  [--format json|markdown]  [--write <note>]
+      Lead/cycle time, throughput, failure rate, WIP over time and per-agent
+      counts, from the history log and claimed_at/completed_at fields.
+      --write saves a markdown report note into the vault
+
+  history       --board <path>  [--id <blockId>]
+      Show the event timeline (add, claim, update, complete, fail, reap, move,
+      edit, delete, archive, fix) recorded in <board>.history.md, optionally for one card
+
+  archive       --board <path>  --id <blockId>
+      Move a card into the board's Archive section
+
+  archive-done  --board <path>  [--older-than <days>]
+      Archive all checked cards, or those completed more than N days ago (7, 7d, 2w)
+
+  lint          --board <path>  [--fix]
+      Report cards without a block ID, duplicate IDs, cards outside any lane,
+      misspelled status tags and status fields that disagree with the lane.
+      --fix assigns unique IDs and rewrites status fields/tags to match lanes
 
   add-task      --board <path>  --title <text>  --lane <name>
-                [--priority high|medium|low]  [--fields key=val,...]
-      Add a new task card
+                [--priority high|medium|low]  [--depends id,...]  [--fields key=val,...]
+      Add a new task card. --depends records [depends::id,...]; the card
+      cannot be claimed until those cards are complete. due= in --fields
+      takes natural dates, as for edit
 
 Examples:
+  bun kanban.ts init --board "Agents/Mission-Control.md"
   bun kanban.ts board-status --board "Agents/Mission-Control.md"
   bun kanban.ts list --board "Agents/Mission-Control.md" --lane Ready
+  bun kanban.ts list --all-boards --lane "In Progress" --agent claude-1
   bun kanban.ts claim --board "Agents/Mission-Control.md" --id abc123def --agent claude-1
+  bun kanban.ts claim-next --board "Agents/Mission-Control.md" --agent claude-1 --capabilities python,docker
+  bun kanban.ts heartbeat --board "Agents/Mission-Control.md" --id abc123def --agent claude-1
+  bun kanban.ts reap --board "Agents/Mission-Control.md"
   bun kanban.ts update --board "Agents/Mission-Control.md" --id abc123def --status blocked --note "Waiting on API key"
   bun kanban.ts complete --board "Agents/Mission-Control.md" --id abc123def
   bun kanban.ts fail --board "Agents/Mission-Control.md" --id abc123def --reason "Build failed"
+  bun kanban.ts move --board "Agents/Mission-Control.md" --id abc123def --to Backlog --position top
+  bun kanban.ts edit --board "Agents/Mission-Control.md" --id abc123def --set priority=high --unset note
+  bun kanban.ts lane add --board "Agents/Mission-Control.md" --name Review --position 3 --limit 2
+  bun kanban.ts watch --board "Agents/Mission-Control.md" --id abc123def --until status=complete --timeout 600
+  bun kanban.ts lint --board "Agents/Mission-Control.md" --fix
+  bun kanban.ts sync --board "Agents/Mission-Control.md" --tag agent
   bun kanban.ts add-task --board "Agents/Mission-Control.md" --title "Refactor auth module" --lane Backlog --priority high
 
+Board format:
+  claim, complete, fail and reap use the lanes Ready, In Progress, Done and
+  Failed. Rename them per board with frontmatter properties lane-ready,
+  lane-in-progress, lane-done and lane-failed (e.g. "lane-ready: Bereit").
+  The obsidian-kanban settings block (%% kanban:settings %%) and the Archive
+  section below "***" are preserved. A lane heading like "## In Progress (3)"
+  sets a WIP limit; moves and additions past it fail with
+  {"success":false,"error":"wip_limit",...}.
+
+Concurrency:
+  Writes are compare-and-swap: if the board changed since it was read, the
+  command is retried against the fresh board. If it no longer applies (e.g. the
+  card was claimed meanwhile) it prints {"success":false,"error":"conflict",...}
+  and exits with status 2.
+
+Global options:
+  --dry-run  Run the command without writing; print a unified diff of every
+             note it would change (board, history, result notes) on stderr
+  --diff     Write as usual and print the same diff
+
 Environment:
-  OBSIDIAN_VAULT   Vault name to target (optional, defaults to active vault)
+  OBSIDIAN_BACKEND       cli | rest | fs (default: cli)
+  OBSIDIAN_VAULT         Vault name for the cli backend (optional, defaults to active vault)
+  OBSIDIAN_VAULT_PATH    Vault directory for the fs backend
+  KANBAN_BOARDS          Boards and/or folders for boards, find and --all-boards
+                         (comma-separated; default: every note with kanban-plugin
+                         frontmatter)
+  KANBAN_RESULTS_FOLDER  Folder for result notes (default: Results next to the
+                         board; a board's results-folder frontmatter wins)
+  OBSIDIAN_TODO_FILE     Todo note for sync (default: Inbox/Tasks.md)
 `);
   process.exit(command ? 1 : 0);
 }
@@ -564,6 +3509,28 @@ Environment:
 try {
   await commands[command]();
 } catch (error) {
+  if (error instanceof KanbanError && error.code) {
+    console.log(
+      JSON.stringify({
+        success: false,
+        error: error.code,
+        message: error.message,
+        ...error.details,
+      }),
+    );
+    process.exit(1);
+  }
+  if (error instanceof ConflictError) {
+    console.log(
+      JSON.stringify({
+        success: false,
+        error: "conflict",
+        board: error.boardPath,
+        message: error.message,
+      }),
+    );
+    process.exit(2);
+  }
   console.error("Error:", error instanceof Error ? error.message : error);
   process.exit(1);
 }
@@ -9,7 +9,7 @@
  *   OBSIDIAN_HTTPS        - Use HTTPS (default: true)
  */
 
-import { readFile, writeFile, readdir, mkdir } from "fs/promises";
+import { readFile, writeFile, readdir, mkdir, rm } from "fs/promises";
 import { join, dirname } from "path";
 
 export interface NoteJson {
@@ -95,6 +95,16 @@ export class ObsidianClient {
     await writeFile(fullPath, content, "utf-8");
   }
 
+  async fsAppend(notePath: string, content: string): Promise<void> {
+    const existing = await this.fsRead(notePath).catch(() => "");
+    const separator = existing && !existing.endsWith("\n") ? "\n" : "";
+    await this.fsWrite(notePath, existing + separator + content + "\n");
+  }
+
+  async fsDelete(notePath: string): Promise<void> {
+    await rm(this.getFullPath(notePath), { force: true });
+  }
+
   async fsList(directory = ""): Promise<string[]> {
     const fullPath = this.getFullPath(directory);
     const entries = await readdir(fullPath, { withFileTypes: true, recursive: true });
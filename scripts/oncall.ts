@@ -8,10 +8,11 @@
  * Usage: bun oncall.ts <command> [args]
  */
 
-import { $ } from "bun";
+import { formatDate } from "./dates";
+import { createBackend, parsePreviewFlags, withPreview } from "./vault-backend";
 
-const VAULT = process.env.OBSIDIAN_VAULT;
-const vaultArg = VAULT ? [`vault=${VAULT}`] : [];
+const preview = parsePreviewFlags(process.argv.slice(2));
+const vault = withPreview(createBackend(), preview.mode);
 
 const ONCALL_DIR = "Journal/Oncall";
 const CURRENT_SHIFT = `${ONCALL_DIR}/current-shift.md`;
@@ -25,10 +26,6 @@ function formatTime(): string {
   });
 }
 
-function formatDate(): string {
-  return new Date().toISOString().split("T")[0];
-}
-
 function parseFrontmatter(content: string): { frontmatter: Record<string, string>; body: string } {
   const match = content.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
   if (!match) {
@@ -51,32 +48,10 @@ function createFrontmatter(meta: Record<string, string>): string {
   return `---\n${lines.join("\n")}\n---\n`;
 }
 
-async function obsidianRead(path: string): Promise<string | null> {
-  const content = await $`obsidian read path=${path} ${vaultArg}`.text();
-  return content.startsWith("Error:") ? null : content;
-}
-
-async function obsidianWrite(path: string, content: string): Promise<void> {
-  await $`obsidian create path=${path} content=${content} overwrite ${vaultArg}`.quiet();
-}
-
-async function obsidianDelete(path: string): Promise<void> {
-  await $`obsidian delete path=${path} permanent ${vaultArg}`.quiet();
-}
-
-async function obsidianListFiles(folder: string): Promise<string[]> {
-  const out = await $`obsidian files folder=${folder} ${vaultArg}`.text();
-  if (out.startsWith("Error:")) return [];
-  return out
-    .trim()
-    .split("\n")
-    .filter((l) => l.endsWith(".md"));
-}
-
 // === Commands ===
 
 async function start(): Promise<void> {
-  if ((await obsidianRead(CURRENT_SHIFT)) !== null) {
+  if ((await vault.read(CURRENT_SHIFT)) !== null) {
     console.error('Error: Active shift already exists. Run "oncall end" first.');
     process.exit(1);
   }
@@ -91,12 +66,12 @@ async function start(): Promise<void> {
       status: "active",
     }) + `\n## Oncall Shift (${date})\n> Started: ${time}\n`;
 
-  await obsidianWrite(CURRENT_SHIFT, content);
+  await vault.write(CURRENT_SHIFT, content);
   console.log(`Oncall shift started at ${time}`);
 }
 
 async function log(message: string, tags: string[]): Promise<void> {
-  if ((await obsidianRead(CURRENT_SHIFT)) === null) {
+  if ((await vault.read(CURRENT_SHIFT)) === null) {
     console.error('Error: No active shift. Run "oncall start" first.');
     process.exit(1);
   }
@@ -105,12 +80,12 @@ async function log(message: string, tags: string[]): Promise<void> {
   const tagStr = tags.length ? " " + tags.map((t) => `#${t}`).join(" ") : "";
   const entry = `- ${time} ${message}${tagStr}`;
 
-  await $`obsidian append path=${CURRENT_SHIFT} content=${entry} ${vaultArg}`.quiet();
+  await vault.append(CURRENT_SHIFT, entry);
   console.log(`Logged: ${entry}`);
 }
 
 async function resolve(message: string, tags: string[]): Promise<void> {
-  if ((await obsidianRead(CURRENT_SHIFT)) === null) {
+  if ((await vault.read(CURRENT_SHIFT)) === null) {
     console.error('Error: No active shift. Run "oncall start" first.');
     process.exit(1);
   }
@@ -119,12 +94,12 @@ async function resolve(message: string, tags: string[]): Promise<void> {
   const tagStr = "#resolved" + (tags.length ? " " + tags.map((t) => `#${t}`).join(" ") : "");
   const entry = `- ${time} ✓ ${message} ${tagStr}`;
 
-  await $`obsidian append path=${CURRENT_SHIFT} content=${entry} ${vaultArg}`.quiet();
+  await vault.append(CURRENT_SHIFT, entry);
   console.log(`Logged: ${entry}`);
 }
 
 async function end(): Promise<void> {
-  const content = await obsidianRead(CURRENT_SHIFT);
+  const content = await vault.read(CURRENT_SHIFT);
   if (content === null) {
     console.error("Error: No active shift to end.");
     process.exit(1);
@@ -148,19 +123,19 @@ async function end(): Promise<void> {
 
   let archivePath = base;
   let counter = 1;
-  while ((await obsidianRead(archivePath)) !== null) {
+  while ((await vault.read(archivePath)) !== null) {
     archivePath = base.replace(".md", `-${++counter}.md`);
   }
 
-  await obsidianWrite(archivePath, newContent);
-  await obsidianDelete(CURRENT_SHIFT);
+  await vault.write(archivePath, newContent);
+  await vault.delete(CURRENT_SHIFT);
 
   console.log(`Oncall shift ended at ${endTime}`);
   console.log(`Archived to: ${archivePath}`);
 }
 
 async function summary(): Promise<void> {
-  const content = await obsidianRead(CURRENT_SHIFT);
+  const content = await vault.read(CURRENT_SHIFT);
   if (content === null) {
     console.log("No active shift.");
     return;
@@ -180,7 +155,7 @@ async function search(query: string): Promise<void> {
   const lowerQuery = query.toLowerCase();
   let found = false;
 
-  const current = await obsidianRead(CURRENT_SHIFT);
+  const current = await vault.read(CURRENT_SHIFT);
   if (current !== null) {
     const lines = current
       .split("\n")
@@ -193,9 +168,9 @@ async function search(query: string): Promise<void> {
     }
   }
 
-  const archiveFiles = await obsidianListFiles(ARCHIVE_DIR);
+  const archiveFiles = await vault.list(ARCHIVE_DIR);
   for (const file of archiveFiles.sort().reverse()) {
-    const content = await obsidianRead(file);
+    const content = await vault.read(file);
     if (!content) continue;
     const lines = content
       .split("\n")
@@ -215,7 +190,7 @@ async function search(query: string): Promise<void> {
 async function list(): Promise<void> {
   console.log("=== Oncall Shifts ===");
 
-  const current = await obsidianRead(CURRENT_SHIFT);
+  const current = await vault.read(CURRENT_SHIFT);
   if (current !== null) {
     const { frontmatter } = parseFrontmatter(current);
     console.log(
@@ -223,7 +198,7 @@ async function list(): Promise<void> {
     );
   }
 
-  const files = await obsidianListFiles(ARCHIVE_DIR);
+  const files = await vault.list(ARCHIVE_DIR);
   files
     .sort()
     .reverse()
@@ -237,7 +212,7 @@ async function list(): Promise<void> {
 
 // === CLI Entry Point ===
 
-const [command, ...args] = process.argv.slice(2);
+const [command, ...args] = preview.args;
 
 const commands: Record<string, () => Promise<void>> = {
   async start() {
@@ -294,6 +269,10 @@ Commands:
   search <query>           Search oncall logs
   list                     List recent shifts
 
+Global options:
+  --dry-run                Print a unified diff of each note (on stderr) instead of writing
+  --diff                   Write and print the diff
+
 Files:
   Journal/Oncall/current-shift.md    Active shift
   Journal/Oncall/archive/            Completed shifts
@@ -303,6 +282,7 @@ Examples:
   bun oncall.ts log "PagerDuty alert for db-prod-01" incident database
   bun oncall.ts resolve "Increased connection pool" database
   bun oncall.ts end
+  bun oncall.ts end --dry-run
 `);
   process.exit(1);
 }
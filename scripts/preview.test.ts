@@ -0,0 +1,142 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join, relative } from "path";
+import { formatDate } from "./dates";
+
+// Expected --dry-run output lives in scripts/golden; UPDATE_GOLDEN=1 rewrites it
+const GOLDEN_DIR = join(import.meta.dir, "golden");
+
+const vaults: string[] = [];
+afterAll(() => vaults.forEach((root) => rmSync(root, { recursive: true, force: true })));
+
+/** A throwaway fs-backend vault holding the given notes. */
+function makeVault(notes: Record<string, string>): string {
+  const root = mkdtempSync(join(tmpdir(), "preview-test-"));
+  vaults.push(root);
+  for (const [path, content] of Object.entries(notes)) {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+  }
+  return root;
+}
+
+/** Every file in the vault with its content, to check nothing was written. */
+function snapshot(root: string): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const entry of readdirSync(root, { recursive: true, withFileTypes: true })) {
+    if (!entry.isFile()) continue;
+    const path = join(entry.parentPath, entry.name);
+    files[relative(root, path)] = readFileSync(path, "utf8");
+  }
+  return files;
+}
+
+function run(script: string, args: string[], vaultPath: string) {
+  const proc = Bun.spawnSync(["bun", join(import.meta.dir, script), ...args], {
+    env: {
+      ...process.env,
+      OBSIDIAN_BACKEND: "fs",
+      OBSIDIAN_VAULT_PATH: vaultPath,
+      OBSIDIAN_TODO_FILE: "Inbox/Tasks.md",
+    },
+  });
+  return { status: proc.exitCode, stdout: proc.stdout.toString(), stderr: proc.stderr.toString() };
+}
+
+/**
+ * Mask what depends on the clock: timestamps, today's date and, in added
+ * lines, times of day. Trailing spaces (blank context lines) are dropped so
+ * the trailing-whitespace hook leaves the golden files alone.
+ */
+function normalize(diff: string): string {
+  return diff
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z/g, "<now>")
+    .replaceAll(formatDate(), "<today>")
+    .replace(/^\+(?!\+\+).*$/gm, (line) => line.replace(/\b\d{2}:\d{2}\b/g, "<time>"));
+}
+
+function expectGolden(name: string, diff: string): void {
+  const file = join(GOLDEN_DIR, `${name}.diff`);
+  if (process.env.UPDATE_GOLDEN) writeFileSync(file, normalize(diff));
+  expect(normalize(diff)).toBe(readFileSync(file, "utf8"));
+}
+
+/** Run a command with --dry-run; it must print the golden diff and leave the vault as it was. */
+function expectDryRun(
+  name: string,
+  script: string,
+  args: string[],
+  notes: Record<string, string>,
+): void {
+  const vaultPath = makeVault(notes);
+  const before = snapshot(vaultPath);
+  const result = run(script, [...args, "--dry-run"], vaultPath);
+
+  expect(result.status).toBe(0);
+  expectGolden(name, result.stderr);
+  expect(snapshot(vaultPath)).toEqual(before);
+}
+
+const BOARD = `---
+kanban-plugin: board
+---
+
+## Ready
+
+- [ ] Write release notes [priority::high] #agent-task ^card01
+- [ ] Fix flaky test #agent-task ^card02
+
+## In Progress
+
+## Done
+
+`;
+
+const TASKS = `- [ ] Water the plants 🔁 every week 📅 2026-03-06 ➕ 2026-03-01
+- [ ] Renew passport #admin ⏫ 📅 2026-04-01
+- [x] Book dentist ✅ 2026-02-27
+`;
+
+const SHIFT = `---
+startDate: 2026-03-01
+startTime: 09:00
+status: active
+---
+
+## Oncall Shift (2026-03-01)
+> Started: 09:00
+- 09:30 API latency alert #api
+- 10:15 ✓ Restarted the cache #resolved #api
+`;
+
+describe("--dry-run", () => {
+  test("kanban move", () => {
+    expectDryRun(
+      "kanban-move",
+      "kanban.ts",
+      ["move", "--board", "Agents/Board.md", "--id", "card01", "--to", "Done"],
+      { "Agents/Board.md": BOARD },
+    );
+  });
+
+  test("todo done on a recurring task", () => {
+    expectDryRun("todo-done", "todo.ts", ["done", "Water"], { "Inbox/Tasks.md": TASKS });
+  });
+
+  test("oncall end", () => {
+    expectDryRun("oncall-end", "oncall.ts", ["end"], { "Journal/Oncall/current-shift.md": SHIFT });
+  });
+});
+
+describe("--diff", () => {
+  test("writes the note and prints the same diff as --dry-run", () => {
+    const vaultPath = makeVault({ "Inbox/Tasks.md": TASKS });
+    const result = run("todo.ts", ["done", "Water", "--diff"], vaultPath);
+
+    expect(result.status).toBe(0);
+    expectGolden("todo-done", result.stderr);
+    expect(readFileSync(join(vaultPath, "Inbox/Tasks.md"), "utf8")).not.toBe(TASKS);
+  });
+});
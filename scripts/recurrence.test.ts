@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { nextDates, nextOccurrence, parseRecurrence } from "./recurrence";
+
+const next = (rule: string, after: string) => nextOccurrence(parseRecurrence(rule), after);
+
+describe("month ends", () => {
+  test("plain every month clamps the 31st to shorter months", () => {
+    expect(next("every month", "2026-01-31")).toBe("2026-02-28");
+    expect(next("every month", "2026-03-31")).toBe("2026-04-30");
+    expect(next("every month", "2028-01-31")).toBe("2028-02-29");
+  });
+
+  test("on the 31st skips months without one", () => {
+    expect(next("every month on the 31st", "2026-01-31")).toBe("2026-03-31");
+    expect(next("every month on the 31st", "2026-03-31")).toBe("2026-05-31");
+  });
+
+  test("on the last day follows the month's length", () => {
+    expect(next("every month on the last day", "2026-01-31")).toBe("2026-02-28");
+    expect(next("every month on the last", "2026-02-28")).toBe("2026-03-31");
+  });
+
+  test("every year from February 29th lands on the 28th", () => {
+    expect(next("every year", "2024-02-29")).toBe("2025-02-28");
+  });
+});
+
+describe("weekdays", () => {
+  // 2026-03-02 is a Monday
+  test("every N weeks on listed days stays in the week, then skips N-1 weeks", () => {
+    expect(next("every 2 weeks on Monday, Thursday", "2026-03-02")).toBe("2026-03-05");
+    expect(next("every 2 weeks on Monday, Thursday", "2026-03-05")).toBe("2026-03-16");
+    expect(next("every 3 weeks on mon and fri", "2026-03-06")).toBe("2026-03-23");
+  });
+
+  test("every weekday skips the weekend", () => {
+    expect(next("every weekday", "2026-03-06")).toBe("2026-03-09");
+  });
+
+  test("month on the nth weekday", () => {
+    expect(next("every month on the 2nd Tuesday", "2026-03-10")).toBe("2026-04-14");
+    expect(next("every month on the last Friday", "2026-03-27")).toBe("2026-04-24");
+  });
+});
+
+describe("next dates", () => {
+  // As in the Tasks plugin, an overdue task is not moved past today; only "when done" is
+  test("move one interval from the due date, even if that is still past", () => {
+    const dates = nextDates(
+      parseRecurrence("every week"),
+      { due: "2026-03-06", scheduled: "2026-03-04" },
+      "2026-03-20",
+    );
+    expect(dates).toEqual({ due: "2026-03-13", scheduled: "2026-03-11" });
+  });
+
+  test("when done skips to after the completion date", () => {
+    const dates = nextDates(
+      parseRecurrence("every week when done"),
+      { due: "2026-01-05", scheduled: "2026-01-03" },
+      "2026-03-10",
+    );
+    expect(dates).toEqual({ due: "2026-03-17", scheduled: "2026-03-15" });
+  });
+
+  test("without dates there is nothing to shift", () => {
+    expect(nextDates(parseRecurrence("every day"), {}, "2026-03-10")).toEqual({});
+  });
+});
+
+describe("the next occurrence is always after the reference date", () => {
+  for (const rule of [
+    "every day",
+    "every monday",
+    "every 2 weeks on Monday",
+    "every month on the 2nd",
+    "every month on the last Friday",
+    "every year",
+  ]) {
+    test(rule, () => {
+      // A Monday, the end of a year and the end of February
+      for (const after of ["2026-03-02", "2026-12-31", "2027-02-28"]) {
+        expect(next(rule, after) > after).toBe(true);
+      }
+    });
+  }
+
+  test("a rule on the reference weekday moves to the next week", () => {
+    expect(next("every monday", "2026-03-02")).toBe("2026-03-09");
+  });
+});
+
+describe("parsing", () => {
+  test("rejects what it cannot compute", () => {
+    for (const rule of ["every 0 days", "every fortnight", "every month on the 32nd", "daily"]) {
+      expect(() => parseRecurrence(rule)).toThrow(/Unsupported recurrence/);
+    }
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Recurrence - Tasks plugin "🔁 every ..." rules
+ *
+ * Parses the rule text the Tasks plugin writes and computes the next
+ * occurrence the way it does: the reference date (due, else scheduled, else
+ * start; the completion date for "when done") moves to the next matching
+ * date after it, and the task's other dates keep their distance to it.
+ *
+ *   every 3 days
+ *   every weekday
+ *   every 2 weeks on Monday, Thursday
+ *   every month on the 15th
+ *   every month on the last Friday
+ *   every year when done
+ *
+ * Dates are YYYY-MM-DD strings; the arithmetic is done in UTC so daylight
+ * saving changes cannot shift a day.
+ */
+
+export interface RecurrenceRule {
+  unit: "day" | "week" | "month" | "year";
+  interval: number;
+  weekdays: number[]; // "week" rules on listed days, 0 = Sunday
+  monthDay?: number; // "month on the 15th"; -1 for the last day
+  nthWeekday?: { n: number; weekday: number }; // "month on the 2nd Tuesday"; n = -1 for last
+  whenDone: boolean;
+}
+
+export interface RecurringDates {
+  due?: string;
+  scheduled?: string;
+  start?: string;
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const ORDINALS: Record<string, number> = { first: 1, second: 2, third: 3, fourth: 4, last: -1 };
+const DAY_MS = 86400000;
+
+// === Parsing ===
+
+function parseWeekday(word: string): number | undefined {
+  const index = WEEKDAYS.findIndex((d) => word.length >= 3 && d.startsWith(word));
+  return index === -1 ? undefined : index;
+}
+
+/** "monday, thursday" / "mon and fri"; null unless every word is a weekday. */
+function parseWeekdayList(text: string): number[] | null {
+  const words = text.split(/\s*,\s*|\s+and\s+/).filter(Boolean);
+  const days = words.map(parseWeekday);
+  if (!days.length || days.some((d) => d === undefined)) return null;
+  return [...new Set(days as number[])].sort((a, b) => a - b);
+}
+
+function parseOrdinal(word: string): number | undefined {
+  if (word in ORDINALS) return ORDINALS[word];
+  const match = word.match(/^([1-4])(?:st|nd|rd|th)$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/** Parse a rule such as "every 2 weeks on Monday when done" (the "every" is optional). */
+export function parseRecurrence(text: string): RecurrenceRule {
+  const invalid = new Error(
+    `Unsupported recurrence "${text}" (e.g. "every day", "every 2 weeks on Monday", ` +
+      `"every month on the last Friday", "every year when done")`,
+  );
+
+  let rest = text.trim().toLowerCase().replace(/\s+/g, " ");
+  const whenDone = rest.endsWith(" when done");
+  rest = rest
+    .replace(/ when done$/, "")
+    .replace(/^every /, "")
+    .trim();
+
+  if (rest === "weekday") {
+    return { unit: "week", interval: 1, weekdays: [1, 2, 3, 4, 5], whenDone };
+  }
+  const days = parseWeekdayList(rest);
+  if (days) return { unit: "week", interval: 1, weekdays: days, whenDone };
+
+  const match = rest.match(/^(?:(\d+) )?(day|week|month|year)s?(?: on (.+))?$/);
+  if (!match) throw invalid;
+  const [, count, unit, on] = match;
+  const rule: RecurrenceRule = {
+    unit: unit as RecurrenceRule["unit"],
+    interval: count ? Number(count) : 1,
+    weekdays: [],
+    whenDone,
+  };
+  if (rule.interval < 1) throw invalid;
+  if (!on) return rule;
+
+  if (rule.unit === "week") {
+    const weekdays = parseWeekdayList(on);
+    if (!weekdays) throw invalid;
+    rule.weekdays = weekdays;
+    return rule;
+  }
+
+  if (rule.unit === "month") {
+    const spec = on.replace(/^the /, "");
+    if (spec === "last" || spec === "last day") {
+      rule.monthDay = -1;
+      return rule;
+    }
+    const day = spec.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+    if (day && Number(day[1]) >= 1 && Number(day[1]) <= 31) {
+      rule.monthDay = Number(day[1]);
+      return rule;
+    }
+    const [ordinal, weekday] = spec.split(" ");
+    const n = parseOrdinal(ordinal);
+    const wd = weekday === undefined ? undefined : parseWeekday(weekday);
+    if (n !== undefined && wd !== undefined && spec.split(" ").length === 2) {
+      rule.nthWeekday = { n, weekday: wd };
+      return rule;
+    }
+  }
+
+  throw invalid;
+}
+
+// === Date arithmetic ===
+
+function toUtc(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function fromUtc(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function addDays(date: string, days: number): string {
+  return fromUtc(new Date(toUtc(date).getTime() + days * DAY_MS));
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to).getTime() - toUtc(from).getTime()) / DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Day of the month of the nth (or last, n = -1) given weekday, if it exists. */
+function nthWeekdayOfMonth(year: number, month: number, n: number, weekday: number): number | null {
+  const last = daysInMonth(year, month);
+  if (n === -1) {
+    const lastWeekday = new Date(Date.UTC(year, month, last)).getUTCDay();
+    return last - ((lastWeekday - weekday + 7) % 7);
+  }
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+  return day <= last ? day : null;
+}
+
+/** Candidate day in a month for a "month" rule; null when the month has none. */
+function monthCandidate(rule: RecurrenceRule, year: number, month: number, refDay: number) {
+  const last = daysInMonth(year, month);
+  if (rule.nthWeekday) {
+    return nthWeekdayOfMonth(year, month, rule.nthWeekday.n, rule.nthWeekday.weekday);
+  }
+  if (rule.monthDay === -1) return last;
+  if (rule.monthDay !== undefined) return rule.monthDay <= last ? rule.monthDay : null;
+  // Plain "every month": the 31st recurs on the last day of shorter months
+  return Math.min(refDay, last);
+}
+
+/** The first date strictly after `after` that matches the rule. */
+export function nextOccurrence(rule: RecurrenceRule, after: string): string {
+  const ref = toUtc(after);
+
+  switch (rule.unit) {
+    case "day":
+      return addDays(after, rule.interval);
+
+    case "week": {
+      if (!rule.weekdays.length) return addDays(after, 7 * rule.interval);
+      // Weeks start on Monday; only every interval-th week counts
+      const mondayOffset = (ref.getUTCDay() + 6) % 7;
+      for (let i = 1; i <= 7 * rule.interval + 7; i++) {
+        const week = Math.floor((mondayOffset + i) / 7);
+        const weekday = (ref.getUTCDay() + i) % 7;
+        if (week % rule.interval === 0 && rule.weekdays.includes(weekday)) {
+          return addDays(after, i);
+        }
+      }
+      break;
+    }
+
+    case "month": {
+      for (let k = 0; k <= 48 * rule.interval; k += rule.interval) {
+        const year = ref.getUTCFullYear() + Math.floor((ref.getUTCMonth() + k) / 12);
+        const month = (ref.getUTCMonth() + k) % 12;
+        const day = monthCandidate(rule, year, month, ref.getUTCDate());
+        if (day === null) continue;
+        const candidate = fromUtc(new Date(Date.UTC(year, month, day)));
+        if (candidate > after) return candidate;
+      }
+      break;
+    }
+
+    case "year": {
+      const year = ref.getUTCFullYear() + rule.interval;
+      const day = Math.min(ref.getUTCDate(), daysInMonth(year, ref.getUTCMonth()));
+      return fromUtc(new Date(Date.UTC(year, ref.getUTCMonth(), day)));
+    }
+  }
+
+  throw new Error(`No next occurrence for recurrence after ${after}`);
+}
+
+/**
+ * Dates for the next occurrence. Without any date there is nothing to shift
+ * and the next occurrence has no dates either, as in the Tasks plugin.
+ */
+export function nextDates(
+  rule: RecurrenceRule,
+  dates: RecurringDates,
+  completedOn: string,
+): RecurringDates {
+  const reference = dates.due ?? dates.scheduled ?? dates.start;
+  if (!reference) return {};
+
+  const next = nextOccurrence(rule, rule.whenDone ? completedOn : reference);
+  const shift = daysBetween(reference, next);
+  const result: RecurringDates = {};
+  for (const key of ["due", "scheduled", "start"] as const) {
+    if (dates[key]) result[key] = addDays(dates[key]!, shift);
+  }
+  return result;
+}
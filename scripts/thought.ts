@@ -5,10 +5,9 @@
  * Usage: bun thought.ts <message> [tags...]
  */
 
-import { $ } from "bun";
+import { createBackend } from "./vault-backend";
 
-const VAULT = process.env.OBSIDIAN_VAULT;
-const vaultArg = VAULT ? [`vault=${VAULT}`] : [];
+const vault = createBackend();
 
 function formatTime(): string {
   return new Date().toLocaleTimeString("en-US", {
@@ -44,5 +43,5 @@ const tags = args.slice(1);
 const tagStr = tags.length ? " " + tags.map((t) => `#${t}`).join(" ") : "";
 const entry = `- ${formatTime()} ${message}${tagStr}`;
 
-await $`obsidian daily:append content=${entry} ${vaultArg}`.quiet();
+await vault.appendDaily(entry);
 console.log(`Added: ${entry}`);
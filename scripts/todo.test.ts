@@ -0,0 +1,49 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const vaults: string[] = [];
+afterAll(() => vaults.forEach((root) => rmSync(root, { recursive: true, force: true })));
+
+function makeVault(tasks: string): string {
+  const root = mkdtempSync(join(tmpdir(), "todo-test-"));
+  vaults.push(root);
+  mkdirSync(join(root, "Inbox"));
+  writeFileSync(join(root, "Inbox/Tasks.md"), tasks);
+  return root;
+}
+
+function todo(vaultPath: string, ...args: string[]): number | null {
+  return Bun.spawnSync(["bun", join(import.meta.dir, "todo.ts"), ...args], {
+    env: {
+      ...process.env,
+      OBSIDIAN_BACKEND: "fs",
+      OBSIDIAN_VAULT_PATH: vaultPath,
+      OBSIDIAN_TODO_FILE: "Inbox/Tasks.md",
+    },
+  }).exitCode;
+}
+
+const TASKS = `# Tasks
+
+- [ ] Renew passport 📅 2026-04-01
+
+## Later
+
+- [ ] Water the plants
+- [ ] Book dentist
+`;
+
+describe("writes to the todo file", () => {
+  test("change only the task's own line", () => {
+    const vaultPath = makeVault(TASKS);
+    expect(todo(vaultPath, "edit", "passport", "--priority", "high")).toBe(0);
+    expect(todo(vaultPath, "done", "plants")).toBe(0);
+    expect(todo(vaultPath, "delete", "dentist")).toBe(0);
+
+    const after = readFileSync(join(vaultPath, "Inbox/Tasks.md"), "utf8");
+    expect(after).toMatch(/^# Tasks\n\n- \[ \] Renew passport ⏫ 📅 2026-04-01\n\n## Later\n\n/);
+    expect(after).toMatch(/\n- \[x\] Water the plants ✅ \d{4}-\d{2}-\d{2}\n$/);
+  });
+});
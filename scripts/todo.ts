@@ -6,85 +6,330 @@
  * - [ ] Task #tag 📅 2025-12-30 ➕ 2025-12-29
  *
  * Usage: bun todo.ts <command> [args]
+ *
+ * The task model is also imported by kanban.ts (sync), so the CLI only runs
+ * when this file is executed directly.
  */
 
-import { $ } from "bun";
+import { formatDate, parseDate } from "./dates";
+import { nextDates, parseRecurrence } from "./recurrence";
+import { createBackend, hashContent, parsePreviewFlags, withPreview } from "./vault-backend";
 
-const VAULT = process.env.OBSIDIAN_VAULT;
-const vaultArg = VAULT ? [`vault=${VAULT}`] : [];
+const preview = parsePreviewFlags(process.argv.slice(2));
+const vault = withPreview(createBackend(), preview.mode);
 
-const TODO_FILE = process.env.OBSIDIAN_TODO_FILE || "Inbox/Tasks.md";
+export const TODO_FILE = process.env.OBSIDIAN_TODO_FILE || "Inbox/Tasks.md";
 
 // Task plugin emoji format
-const EMOJI = {
+export const EMOJI = {
   due: "📅",
   created: "➕",
   done: "✅",
+  cancelled: "❌",
   scheduled: "⏳",
   start: "🛫",
+  recurrence: "🔁",
+  highest: "🔺",
   high: "⏫",
   medium: "🔼",
   low: "🔽",
+  lowest: "⏬",
+  id: "🆔",
+  dependsOn: "⛔",
 };
 
-interface Task {
+export type TaskPriority = "highest" | "high" | "medium" | "low" | "lowest";
+
+// Checkbox characters: " " todo, "/" in progress, "x" done, "-" cancelled
+export type TaskStatus = "todo" | "in-progress" | "done" | "cancelled";
+
+export interface Task {
   line: number;
   raw: string;
+  status: TaskStatus;
+  statusSymbol: string; // the character between the brackets, kept as written
   done: boolean;
-  text: string;
+  description: string; // text including tags, without the emoji fields
+  text: string; // description without tags
   tags: string[];
-  due?: string;
+  priority?: TaskPriority;
   created?: string;
-  priority?: "high" | "medium" | "low";
+  start?: string;
+  scheduled?: string;
+  due?: string;
+  doneDate?: string;
+  cancelledDate?: string;
+  recurrence?: string;
+  id?: string;
+  dependsOn?: string[];
 }
 
-function formatDate(date?: Date): string {
-  return (date || new Date()).toISOString().split("T")[0];
-}
+/** Emoji fields, in the order the Tasks plugin writes them. */
+export type TaskField =
+  | "id"
+  | "dependsOn"
+  | "priority"
+  | "recurrence"
+  | "created"
+  | "start"
+  | "scheduled"
+  | "due"
+  | "cancelledDate"
+  | "doneDate";
+
+const DATE = "(\\d{4}-\\d{2}-\\d{2})";
+
+// One pattern per field, as the Tasks plugin accepts them (incl. variation selectors)
+const FIELD_SOURCES: Record<TaskField, string> = {
+  id: "🆔\\uFE0F? *([\\w-]+)",
+  dependsOn: "⛔\\uFE0F? *([\\w-]+(?: *, *[\\w-]+)*)",
+  priority: "([🔺⏫🔼🔽⏬])\\uFE0F?",
+  recurrence: "🔁\\uFE0F? *([a-zA-Z0-9, !]*[a-zA-Z0-9!])",
+  created: `➕\\uFE0F? *${DATE}`,
+  start: `🛫\\uFE0F? *${DATE}`,
+  scheduled: `[⏳⌛]\\uFE0F? *${DATE}`,
+  due: `[📅📆🗓]\\uFE0F? *${DATE}`,
+  cancelledDate: `❌\\uFE0F? *${DATE}`,
+  doneDate: `✅\\uFE0F? *${DATE}`,
+};
 
-function parseTask(line: string, lineNum: number): Task | null {
-  const match = line.match(/^- \[([ x])\] (.+)$/);
-  if (!match) return null;
+const TASK_FIELDS = Object.keys(FIELD_SOURCES) as TaskField[];
 
-  const done = match[1] === "x";
-  const content = match[2];
+const TRAILING_FIELD = Object.fromEntries(
+  TASK_FIELDS.map((f) => [f, new RegExp(`${FIELD_SOURCES[f]}$`, "u")]),
+) as Record<TaskField, RegExp>;
 
-  // Extract tags
-  const tags = (content.match(/#[\w-]+/g) || []).map((t) => t.slice(1));
+const PRIORITY_BY_EMOJI: Record<string, TaskPriority> = {
+  [EMOJI.highest]: "highest",
+  [EMOJI.high]: "high",
+  [EMOJI.medium]: "medium",
+  [EMOJI.low]: "low",
+  [EMOJI.lowest]: "lowest",
+};
+
+const STATUS_BY_SYMBOL: Record<string, TaskStatus> = {
+  " ": "todo",
+  "/": "in-progress",
+  x: "done",
+  X: "done",
+  "-": "cancelled",
+};
+
+const TASK_LINE = /^(\s*[-*+] \[(.)\] )(.*)$/u;
+const BLOCK_LINK = / \^[\w-]+$/;
+
+/** Open tasks: not done and not cancelled. */
+export function isOpen(task: Task): boolean {
+  return task.status === "todo" || task.status === "in-progress";
+}
+
+/**
+ * Split a task's content the way the Tasks plugin reads it: emoji fields and
+ * tags are taken off the end of the line until none is left, so an emoji in
+ * the middle of the text stays part of the description.
+ */
+function splitTaskContent(content: string): {
+  descriptionEnd: number; // where the trailing fields (and tags among them) start
+  fieldsEnd: number; // where the block link starts, or content.length
+  values: Partial<Record<TaskField, string>>;
+  trailingTags: string[];
+} {
+  const fieldsEnd = content.match(BLOCK_LINK)?.index ?? content.length;
+  let rest = content.slice(0, fieldsEnd).trimEnd();
+  const values: Partial<Record<TaskField, string>> = {};
+  const trailingTags: string[] = [];
+
+  for (let matched = true; matched;) {
+    matched = false;
+    for (const field of TASK_FIELDS) {
+      const m = rest.match(TRAILING_FIELD[field]);
+      if (m) {
+        values[field] ??= m[1];
+        rest = rest.slice(0, m.index).trimEnd();
+        matched = true;
+      }
+    }
+    const tag = rest.match(/(^|\s)(#[\w/-]+)$/u);
+    if (tag && rest.length > tag[0].length) {
+      trailingTags.unshift(tag[2]);
+      rest = rest.slice(0, tag.index).trimEnd();
+      matched = true;
+    }
+  }
 
-  // Extract dates
-  const dueMatch = content.match(/📅 (\d{4}-\d{2}-\d{2})/);
-  const createdMatch = content.match(/➕ (\d{4}-\d{2}-\d{2})/);
+  return { descriptionEnd: rest.length, fieldsEnd, values, trailingTags };
+}
+
+export function parseTask(line: string, lineNum: number): Task | null {
+  // Indented and "*" tasks too, so notes other than the todo file parse
+  const match = line.match(TASK_LINE);
+  if (!match || !match[3].trim()) return null;
 
-  // Extract priority
-  let priority: "high" | "medium" | "low" | undefined;
-  if (content.includes("⏫")) priority = "high";
-  else if (content.includes("🔼")) priority = "medium";
-  else if (content.includes("🔽")) priority = "low";
+  const statusSymbol = match[2];
+  const status = STATUS_BY_SYMBOL[statusSymbol] || "todo";
+  const content = match[3];
+  const { descriptionEnd, values, trailingTags } = splitTaskContent(content);
+  const description = [content.slice(0, descriptionEnd), ...trailingTags].join(" ").trim();
 
-  // Clean text (remove metadata)
-  const text = content
-    .replace(/#[\w-]+/g, "")
-    .replace(/[📅➕✅⏳🛫⏫🔼🔽] \d{4}-\d{2}-\d{2}/g, "")
-    .replace(/[⏫🔼🔽]/g, "")
-    .trim();
+  // Extract tags
+  const tags = (description.match(/#[\w/-]+/g) || []).map((t) => t.slice(1));
 
   return {
     line: lineNum,
     raw: line,
-    done,
-    text,
+    status,
+    statusSymbol,
+    done: status === "done",
+    description,
+    text: description
+      .replace(/#[\w/-]+/g, "")
+      .replace(/\s{2,}/g, " ")
+      .trim(),
     tags,
-    due: dueMatch?.[1],
-    created: createdMatch?.[1],
-    priority,
+    priority: values.priority ? PRIORITY_BY_EMOJI[values.priority] : undefined,
+    created: values.created,
+    start: values.start,
+    scheduled: values.scheduled,
+    due: values.due,
+    doneDate: values.doneDate,
+    cancelledDate: values.cancelledDate,
+    recurrence: values.recurrence,
+    id: values.id,
+    dependsOn: values.dependsOn?.split(/ *, */),
   };
 }
 
-async function readTasks(): Promise<{ tasks: Task[]; lines: string[] }> {
-  const content = await $`obsidian read path=${TODO_FILE} ${vaultArg}`.text();
-  if (content.startsWith("Error:")) return { tasks: [], lines: [] };
+const FIELD_EMOJI: Record<Exclude<TaskField, "priority">, string> = {
+  id: EMOJI.id,
+  dependsOn: EMOJI.dependsOn,
+  recurrence: EMOJI.recurrence,
+  created: EMOJI.created,
+  start: EMOJI.start,
+  scheduled: EMOJI.scheduled,
+  due: EMOJI.due,
+  cancelledDate: EMOJI.cancelled,
+  doneDate: EMOJI.done,
+};
+
+/** Field text as written on the line; priority takes a TaskPriority name. */
+function formatTaskField(field: TaskField, value: string): string {
+  if (field === "priority") return EMOJI[value as TaskPriority];
+  return `${FIELD_EMOJI[field]} ${value}`;
+}
+
+/**
+ * Set one emoji field on a task line, or remove it when value is undefined.
+ * An existing field is replaced where it stands and a new one is appended
+ * after the others (before a block link), except priority, which goes right
+ * after the tags as add writes it; the rest of the line is untouched.
+ */
+export function setTaskField(raw: string, field: TaskField, value?: string): string {
+  const match = raw.match(TASK_LINE);
+  if (!match) return raw;
+  const [, prefix, , content] = match;
+  const { descriptionEnd, fieldsEnd } = splitTaskContent(content);
+
+  let fields = content.slice(descriptionEnd, fieldsEnd);
+  const existing = new RegExp(`\\s*${FIELD_SOURCES[field]}`, "u");
+  const formatted = value === undefined ? "" : ` ${formatTaskField(field, value)}`;
+  if (existing.test(fields)) {
+    fields = fields.replace(existing, formatted);
+  } else if (field === "priority") {
+    // Where add writes it: after the description and tags, before 🔁 and the dates
+    const at = tagsEnd(content, descriptionEnd) - descriptionEnd;
+    fields = fields.slice(0, at) + formatted + fields.slice(at);
+  } else {
+    fields = fields.trimEnd() + formatted;
+  }
+  return (prefix + content.slice(0, descriptionEnd) + fields + content.slice(fieldsEnd)).trimEnd();
+}
+
+/** Replace the checkbox character, e.g. "x" for done or "-" for cancelled. */
+export function setStatus(raw: string, symbol: string): string {
+  return raw.replace(/^(\s*[-*+] \[).(\])/u, `$1${symbol}$2`);
+}
+
+function escapeTag(tag: string): string {
+  return tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** End of the tags that directly follow the description, before any emoji field. */
+function tagsEnd(content: string, descriptionEnd: number): number {
+  return descriptionEnd + content.slice(descriptionEnd).match(/^(?:\s+#[\w/-]+)*/u)![0].length;
+}
+
+/**
+ * Replace a task's text. Its tags are kept after the new text (unless it
+ * repeats them); emoji fields and the block link are left as they are.
+ */
+export function setTaskText(raw: string, text: string): string {
+  const match = raw.match(TASK_LINE);
+  if (!match) return raw;
+  const [, prefix, , content] = match;
+  const end = tagsEnd(content, splitTaskContent(content).descriptionEnd);
+
+  const newTags = (text.match(/#[\w/-]+/g) || []).map((t) => t.toLowerCase());
+  const kept = (content.slice(0, end).match(/#[\w/-]+/g) || []).filter(
+    (tag) => !newTags.includes(tag.toLowerCase()),
+  );
+  return prefix + [text.trim(), ...kept].join(" ") + content.slice(end);
+}
+
+/** Add a tag after the description and its tags, unless the task already has it. */
+export function addTaskTag(raw: string, tag: string): string {
+  const match = raw.match(TASK_LINE);
+  const task = parseTask(raw, 0);
+  if (!match || !task || task.tags.some((t) => t.toLowerCase() === tag.toLowerCase())) return raw;
+  const [, prefix, , content] = match;
+  const end = tagsEnd(content, splitTaskContent(content).descriptionEnd);
+  return `${prefix}${content.slice(0, end)} #${tag}${content.slice(end)}`;
+}
+
+/** Remove a tag wherever it appears (not its nested tags, e.g. #work/urgent). */
+export function removeTaskTag(raw: string, tag: string): string {
+  const match = raw.match(TASK_LINE);
+  if (!match) return raw;
+  const [, prefix, , content] = match;
+  const { fieldsEnd } = splitTaskContent(content);
+  const pattern = new RegExp(`(^|\\s)#${escapeTag(tag)}(?![\\w/-])`, "giu");
+  const head = content.slice(0, fieldsEnd).replace(pattern, "").trimStart();
+  return prefix + head + content.slice(fieldsEnd);
+}
+
+/**
+ * Check a task off with today's (or the given) ✅ date. A recurring task gets
+ * its next occurrence inserted above it, as the Tasks plugin does: open, dates
+ * shifted by the 🔁 rule, a fresh ➕ date and without the 🆔 ID and block link,
+ * which stay with the completed instance. Returns the inserted line, if any.
+ */
+export function completeTask(lines: string[], task: Task, date = formatDate()): string | undefined {
+  let next: string | undefined;
+  if (task.recurrence) {
+    const rule = parseRecurrence(task.recurrence);
+    const dates = nextDates(
+      rule,
+      { due: task.due, scheduled: task.scheduled, start: task.start },
+      date,
+    );
+    next = setTaskField(setStatus(task.raw, " "), "id").replace(BLOCK_LINK, "");
+    for (const field of ["start", "scheduled", "due"] as const) {
+      if (dates[field]) next = setTaskField(next, field, dates[field]);
+    }
+    if (task.created) next = setTaskField(next, "created", date);
+  }
+
+  lines[task.line] = setTaskField(setStatus(task.raw, "x"), "doneDate", date);
+  if (next) lines.splice(task.line, 0, next);
+  return next;
+}
 
+export async function readTasks(file = TODO_FILE): Promise<{ tasks: Task[]; lines: string[] }> {
+  const content = await vault.read(file);
+  if (content === null) return { tasks: [], lines: [] };
+  return parseTasks(content);
+}
+
+function parseTasks(content: string): { tasks: Task[]; lines: string[] } {
   // Remove trailing newline before splitting to avoid empty last element
   const lines = content.replace(/\n$/, "").split("\n");
   const tasks: Task[] = [];
@@ -97,18 +342,60 @@ async function readTasks(): Promise<{ tasks: Task[]; lines: string[] }> {
   return { tasks, lines };
 }
 
-async function writeTasks(lines: string[]): Promise<void> {
-  // Filter empty lines, add trailing newline
-  const cleaned = lines.filter((l) => l.trim());
-  await $`obsidian create path=${TODO_FILE} content=${cleaned.join("\n") + "\n"} overwrite ${vaultArg}`.quiet();
+const MAX_WRITE_ATTEMPTS = 5;
+
+/**
+ * Read-modify-write a note's lines, keeping blank lines. The write is refused
+ * if the note changed since it was read, and change() then runs again on a
+ * fresh read, so it must only edit the lines it is given.
+ */
+export async function updateTasks<T>(
+  file: string,
+  change: (tasks: Task[], lines: string[]) => T,
+): Promise<T> {
+  for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+    const content = await vault.read(file);
+    const { tasks, lines } = content === null ? { tasks: [], lines: [] } : parseTasks(content);
+    const before = lines.join("\n");
+    const result = change(tasks, lines);
+    if (lines.join("\n") === before) return result;
+
+    const next = lines.join("\n") + "\n";
+    if (await vault.writeIfUnchanged(file, next, hashContent(content ?? ""))) return result;
+  }
+  throw new Error(`"${file}" kept changing while it was being written; try again`);
+}
+
+const PRIORITY_NAMES: Record<string, TaskPriority> = {
+  highest: "highest",
+  high: "high",
+  h: "high",
+  medium: "medium",
+  med: "medium",
+  m: "medium",
+  low: "low",
+  l: "low",
+  lowest: "lowest",
+};
+
+function parsePriority(value: string): TaskPriority {
+  const priority = PRIORITY_NAMES[value.toLowerCase()];
+  if (!priority) {
+    throw new Error(`Unknown priority "${value}" (highest, high, medium, low or lowest)`);
+  }
+  return priority;
 }
 
 async function add(
   text: string,
   tags: string[],
-  options: { due?: string; priority?: string },
+  options: { due?: string; scheduled?: string; start?: string; priority?: string; every?: string },
 ): Promise<void> {
-  const { lines } = await readTasks();
+  // Resolve dates first so a typo fails before anything is written
+  const start = options.start && parseDate(options.start);
+  const scheduled = options.scheduled && parseDate(options.scheduled);
+  const due = options.due && parseDate(options.due);
+  const priority = options.priority && parsePriority(options.priority);
 
   let task = `- [ ] ${text}`;
 
@@ -118,38 +405,48 @@ async function add(
   }
 
   // Add priority
-  if (options.priority) {
-    const p = options.priority.toLowerCase();
-    if (p === "high" || p === "h") task += ` ${EMOJI.high}`;
-    else if (p === "medium" || p === "med" || p === "m") task += ` ${EMOJI.medium}`;
-    else if (p === "low" || p === "l") task += ` ${EMOJI.low}`;
+  if (priority) task += ` ${EMOJI[priority]}`;
+
+  // Add recurrence, validated so done can always work out the next occurrence
+  if (options.every) {
+    const rule = options.every
+      .trim()
+      .replace(/\s+/g, " ")
+      .replace(/^every /i, "");
+    parseRecurrence(rule);
+    task += ` ${EMOJI.recurrence} every ${rule}`;
   }
 
-  // Add due date
-  if (options.due) {
-    const due =
-      options.due === "today"
-        ? formatDate()
-        : options.due === "tomorrow"
-          ? formatDate(new Date(Date.now() + 86400000))
-          : options.due;
-    task += ` ${EMOJI.due} ${due}`;
-  }
+  // Add start, scheduled and due dates
+  if (start) task += ` ${EMOJI.start} ${start}`;
+  if (scheduled) task += ` ${EMOJI.scheduled} ${scheduled}`;
+  if (due) task += ` ${EMOJI.due} ${due}`;
 
   // Add created date
   task += ` ${EMOJI.created} ${formatDate()}`;
 
-  lines.push(task);
-  await writeTasks(lines);
+  await updateTasks(TODO_FILE, (_, lines) => {
+    lines.push(task);
+  });
   console.log(`Added: ${task}`);
 }
 
+/** Indented under another task; query finds these, list and its numbers leave them out. */
+function isSubtask(task: Task): boolean {
+  return /^\s/.test(task.raw);
+}
+
+/** Open top-level tasks, the ones list numbers. */
+function listedTasks(tasks: Task[]): Task[] {
+  return tasks.filter((t) => isOpen(t) && !isSubtask(t));
+}
+
 function sortTasks(tasks: Task[]): Task[] {
   return [...tasks].sort((a, b) => {
-    const pOrder = { high: 0, medium: 1, low: 2, undefined: 3 };
+    const pOrder = { highest: 0, high: 1, medium: 2, low: 3, lowest: 4, undefined: 5 };
     const pDiff =
-      (pOrder[a.priority as keyof typeof pOrder] ?? 3) -
-      (pOrder[b.priority as keyof typeof pOrder] ?? 3);
+      (pOrder[a.priority as keyof typeof pOrder] ?? 5) -
+      (pOrder[b.priority as keyof typeof pOrder] ?? 5);
     if (pDiff !== 0) return pDiff;
 
     if (a.due && b.due) return a.due.localeCompare(b.due);
@@ -159,8 +456,23 @@ function sortTasks(tasks: Task[]): Task[] {
   });
 }
 
-async function done(query: string): Promise<void> {
-  const { tasks, lines } = await readTasks();
+/**
+ * Resolve a done/delete argument: a list number (as shown by list), a query
+ * reference ("Projects/API.md#1a2b3c", see taskRef) or text to search for.
+ * Numbers and text select from the todo file; references from any note.
+ */
+async function selectTask(
+  query: string,
+): Promise<{ task: Task; file: string } | null> {
+  const ref = query.match(TASK_REF);
+  if (ref) {
+    const [, file, hash] = ref;
+    const { tasks } = await readTasks(file);
+    const task = tasks.find((t) => taskHash(t) === hash);
+    return task ? { task, file } : null;
+  }
+
+  const { tasks } = await readTasks();
 
   // Find by line number or text search
   const num = parseInt(query);
@@ -168,59 +480,136 @@ async function done(query: string): Promise<void> {
 
   if (!isNaN(num)) {
     // Find nth incomplete task (sorted same as list display)
-    const incomplete = sortTasks(tasks.filter((t) => !t.done));
+    const incomplete = sortTasks(listedTasks(tasks));
     task = incomplete[num - 1];
   } else {
     // Search by text
     const lower = query.toLowerCase();
-    task = tasks.find((t) => !t.done && t.text.toLowerCase().includes(lower));
+    task = listedTasks(tasks).find((t) => t.text.toLowerCase().includes(lower));
   }
 
-  if (!task) {
+  return task ? { task, file: TODO_FILE } : null;
+}
+
+/**
+ * Change the selected task through updateTasks, so only the lines the change
+ * touches are rewritten. On a retry the task is found again by its text, in
+ * case lines above it moved meanwhile.
+ */
+async function changeTask<T>(
+  file: string,
+  selected: Task,
+  change: (lines: string[], task: Task) => T,
+): Promise<T> {
+  return updateTasks(file, (tasks, lines) => {
+    const task =
+      tasks.find((t) => t.line === selected.line && t.raw === selected.raw) ??
+      tasks.find((t) => t.raw === selected.raw);
+    if (!task) throw new Error(`Task changed while it was being updated: ${selected.raw}`);
+    return change(lines, task);
+  });
+}
+
+async function done(query: string): Promise<void> {
+  const selected = await selectTask(query);
+  if (!selected || !isOpen(selected.task)) {
     console.error("Task not found");
     process.exit(1);
   }
+  const { task, file } = selected;
 
-  // Mark as done
-  const updated = task.raw.replace("- [ ]", "- [x]") + ` ${EMOJI.done} ${formatDate()}`;
-
-  lines[task.line] = updated;
-  await writeTasks(lines);
+  const next = await changeTask(file, task, (lines, current) => completeTask(lines, current));
   console.log(`Done: ${task.text}`);
+  if (next) console.log(`Next: ${next}`);
 }
 
-async function del(query: string): Promise<void> {
-  const { tasks, lines } = await readTasks();
-
-  // Find by line number or text search
-  const num = parseInt(query);
-  let task: Task | undefined;
-
-  if (!isNaN(num)) {
-    // Find nth incomplete task (sorted same as list display)
-    const incomplete = sortTasks(tasks.filter((t) => !t.done));
-    task = incomplete[num - 1];
-  } else {
-    // Search by text
-    const lower = query.toLowerCase();
-    task = tasks.find((t) => !t.done && t.text.toLowerCase().includes(lower));
+async function cancel(query: string): Promise<void> {
+  const selected = await selectTask(query);
+  if (!selected || !isOpen(selected.task)) {
+    console.error("Task not found");
+    process.exit(1);
   }
+  const { task, file } = selected;
 
-  if (!task) {
+  await changeTask(file, task, (lines, current) => {
+    lines[current.line] = setTaskField(setStatus(current.raw, "-"), "cancelledDate", formatDate());
+  });
+  console.log(`Cancelled: ${task.text}`);
+}
+
+async function del(query: string): Promise<void> {
+  const selected = await selectTask(query);
+  if (!selected) {
     console.error("Task not found");
     process.exit(1);
   }
+  const { task, file } = selected;
 
   // Remove the line
-  lines.splice(task.line, 1);
-  await writeTasks(lines);
+  await changeTask(file, task, (lines, current) => lines.splice(current.line, 1));
   console.log(`Deleted: ${task.text}`);
 }
 
+interface TaskEdit {
+  text?: string;
+  due?: string;
+  clearDue: boolean;
+  priority?: string; // a level, or "none" to remove it
+  addTags: string[];
+  removeTags: string[];
+}
+
+async function edit(query: string, changes: TaskEdit): Promise<void> {
+  if (changes.due && changes.clearDue) throw new Error("Use either --due or --clear-due");
+  if (changes.text !== undefined && !changes.text.trim()) throw new Error("Task text is empty");
+  const due = changes.due && parseDate(changes.due);
+  const priority =
+    changes.priority === undefined || changes.priority.toLowerCase() === "none"
+      ? undefined
+      : parsePriority(changes.priority);
+
+  const selected = await selectTask(query);
+  if (!selected) {
+    console.error("Task not found");
+    process.exit(1);
+  }
+  const { task, file } = selected;
+
+  let updated = task.raw;
+  if (changes.text !== undefined) updated = setTaskText(updated, changes.text);
+  if (changes.priority !== undefined) updated = setTaskField(updated, "priority", priority);
+  if (due) updated = setTaskField(updated, "due", due);
+  if (changes.clearDue) updated = setTaskField(updated, "due");
+  for (const tag of changes.addTags) updated = addTaskTag(updated, tag);
+  for (const tag of changes.removeTags) updated = removeTaskTag(updated, tag);
+
+  if (updated === task.raw) {
+    console.log(`Unchanged: ${task.raw}`);
+    return;
+  }
+  await changeTask(file, task, (lines, current) => {
+    lines[current.line] = updated;
+  });
+  console.log(`Edited: ${updated}`);
+}
+
+/** Priority, recurrence and dates for list output, e.g. " ⏫ 🔁 every week 📅 2026-03-01". */
+function formatMeta(t: Task): string {
+  const parts = [
+    t.status === "in-progress" ? "(in progress)" : "",
+    t.priority ? EMOJI[t.priority] : "",
+    t.recurrence ? `${EMOJI.recurrence} ${t.recurrence}` : "",
+    t.start ? `${EMOJI.start} ${t.start}` : "",
+    t.scheduled ? `${EMOJI.scheduled} ${t.scheduled}` : "",
+    t.due ? `${EMOJI.due} ${t.due}` : "",
+  ].filter(Boolean);
+  return parts.map((p) => ` ${p}`).join("");
+}
+
 async function list(filter?: string): Promise<void> {
   const { tasks } = await readTasks();
 
-  let filtered = tasks.filter((t) => !t.done);
+  let filtered = listedTasks(tasks);
 
   if (filter) {
     const lower = filter.toLowerCase();
@@ -239,32 +628,28 @@ async function list(filter?: string): Promise<void> {
   const sorted = sortTasks(filtered);
 
   sorted.forEach((t, i) => {
-    const priority = t.priority ? ` ${EMOJI[t.priority]}` : "";
-    const due = t.due ? ` ${EMOJI.due} ${t.due}` : "";
     const tags = t.tags.length ? ` ${t.tags.map((x) => `#${x}`).join(" ")}` : "";
-    console.log(`${i + 1}. ${t.text}${priority}${due}${tags}`);
+    console.log(`${i + 1}. ${t.text}${formatMeta(t)}${tags}`);
   });
 }
 
 async function listAll(): Promise<void> {
   const { tasks } = await readTasks();
 
-  const incomplete = tasks.filter((t) => !t.done);
-  const complete = tasks.filter((t) => t.done).slice(-5);
+  const incomplete = listedTasks(tasks);
+  const complete = tasks.filter((t) => !isOpen(t) && !isSubtask(t)).slice(-5);
 
   if (incomplete.length) {
     console.log("=== Pending ===");
     incomplete.forEach((t, i) => {
-      const priority = t.priority ? ` ${EMOJI[t.priority]}` : "";
-      const due = t.due ? ` ${EMOJI.due} ${t.due}` : "";
-      console.log(`${i + 1}. ${t.text}${priority}${due}`);
+      console.log(`${i + 1}. ${t.text}${formatMeta(t)}`);
     });
   }
 
   if (complete.length) {
     console.log("\n=== Recently Done ===");
     complete.forEach((t) => {
-      console.log(`✓ ${t.text}`);
+      console.log(`${t.done ? "✓" : "✗"} ${t.text}`);
     });
   }
 
@@ -273,11 +658,293 @@ async function listAll(): Promise<void> {
   }
 }
 
+// === Query ===
+
+/**
+ * "todo query" scans every note (or a folder) for tasks and filters them with
+ * a subset of the Tasks plugin query language, one instruction per line:
+ *
+ *   not done
+ *   due before tomorrow
+ *   tag includes #work
+ *   sort by due
+ *   group by path
+ */
+interface VaultTask extends Task {
+  path: string;
+  ref: string;
+}
+
+interface TaskQuery {
+  filters: ((t: VaultTask) => boolean)[];
+  sorts: { key: string; reverse: boolean }[];
+  groups: string[];
+  limit?: number;
+}
+
+// "<note path>#<6 hex digits>"
+const TASK_REF = /^(.+\.md)#([0-9a-f]{6})$/;
+
+/** Content hash of the task line: stable while the task itself is unchanged. */
+function taskHash(task: Task): string {
+  return hashContent(task.raw.trim()).slice(0, 6);
+}
+
+function taskRef(path: string, task: Task): string {
+  return `${path}#${taskHash(task)}`;
+}
+
+async function readVaultTasks(folder = ""): Promise<VaultTask[]> {
+  const files = (await vault.list(folder.replace(/\/$/, ""))).sort();
+  const result: VaultTask[] = [];
+  for (const path of files) {
+    const { tasks } = await readTasks(path);
+    result.push(...tasks.map((t) => ({ ...t, path, ref: taskRef(path, t) })));
+  }
+  return result;
+}
+
+const PRIORITY_RANK: Record<string, number> = {
+  highest: 0,
+  high: 1,
+  medium: 2,
+  none: 3,
+  low: 4,
+  lowest: 5,
+};
+
+const QUERY_DATES = {
+  due: "due",
+  created: "created",
+  start: "start",
+  scheduled: "scheduled",
+  done: "doneDate",
+  cancelled: "cancelledDate",
+} as const;
+
+function priorityOf(task: Task): string {
+  return task.priority || "none";
+}
+
+function compareDates(a: string | undefined, b: string | undefined): number {
+  // Tasks without the date sort last
+  if (a && b) return a.localeCompare(b);
+  return a ? -1 : b ? 1 : 0;
+}
+
+const STATUS_ORDER: TaskStatus[] = ["in-progress", "todo", "done", "cancelled"];
+
+const SORT_KEYS: Record<string, (a: VaultTask, b: VaultTask) => number> = {
+  ...Object.fromEntries(
+    Object.entries(QUERY_DATES).map(([key, field]) => [
+      key,
+      (a: VaultTask, b: VaultTask) => compareDates(a[field], b[field]),
+    ]),
+  ),
+  priority: (a, b) => PRIORITY_RANK[priorityOf(a)] - PRIORITY_RANK[priorityOf(b)],
+  path: (a, b) => a.path.localeCompare(b.path) || a.line - b.line,
+  description: (a, b) => a.text.localeCompare(b.text),
+  status: (a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status),
+};
+
+const GROUP_KEYS: Record<string, (t: VaultTask) => string[]> = {
+  path: (t) => [t.path],
+  folder: (t) => [t.path.includes("/") ? t.path.slice(0, t.path.lastIndexOf("/") + 1) : "/"],
+  filename: (t) => [t.path.slice(t.path.lastIndexOf("/") + 1)],
+  tags: (t) => (t.tags.length ? t.tags.map((tag) => `#${tag}`) : ["(No tags)"]),
+  priority: (t) => [`Priority: ${priorityOf(t)}`],
+  due: (t) => [t.due || "No due date"],
+  status: (t) => [t.status],
+  recurrence: (t) => [t.recurrence ? `${EMOJI.recurrence} ${t.recurrence}` : "Not recurring"],
+};
+
+/** Parse one "<field> includes|does not include <text>" filter. */
+function textFilter(
+  rest: string,
+  value: (t: VaultTask) => string[],
+): ((t: VaultTask) => boolean) | null {
+  const match = rest.match(/^(includes?|does not include|do not include)\s+(.+)$/);
+  if (!match) return null;
+  const needle = match[2].trim().toLowerCase();
+  const includes = (t: VaultTask) => value(t).some((v) => v.toLowerCase().includes(needle));
+  return match[1].startsWith("include") ? includes : (t) => !includes(t);
+}
+
+function parseQuery(instructions: string[]): TaskQuery {
+  const query: TaskQuery = { filters: [], sorts: [], groups: [] };
+
+  for (const raw of instructions) {
+    const line = raw.trim();
+    const lower = line.toLowerCase();
+    if (!line || line.startsWith("#")) continue;
+
+    // As in Tasks, cancelled tasks count as done
+    if (lower === "done" || lower === "not done") {
+      const wantOpen = lower === "not done";
+      query.filters.push((t) => isOpen(t) === wantOpen);
+      continue;
+    }
+
+    const status = lower.match(/^status is (not )?(todo|in-progress|done|cancelled)$/);
+    if (status) {
+      const [, not, value] = status;
+      query.filters.push((t) => (t.status === value) !== !!not);
+      continue;
+    }
+
+    if (lower === "is recurring" || lower === "is not recurring") {
+      const wantRecurring = lower === "is recurring";
+      query.filters.push((t) => !!t.recurrence === wantRecurring);
+      continue;
+    }
+
+    const has = lower.match(/^(has|no) (due|created|start|scheduled|done|cancelled) date$/);
+    if (has) {
+      const [, mode, key] = has;
+      const field = QUERY_DATES[key as keyof typeof QUERY_DATES];
+      query.filters.push((t) => !!t[field] === (mode === "has"));
+      continue;
+    }
+
+    const date = line.match(
+      /^(due|created|start|scheduled|done|cancelled)(?:\s+(before|after|on))?\s+(.+)$/i,
+    );
+    if (date) {
+      const field = QUERY_DATES[date[1].toLowerCase() as keyof typeof QUERY_DATES];
+      const op = (date[2] || "on").toLowerCase();
+      const value = parseDate(date[3]);
+      query.filters.push((t) => {
+        const d = t[field];
+        if (!d) return false;
+        return op === "before" ? d < value : op === "after" ? d > value : d === value;
+      });
+      continue;
+    }
+
+    const priority = lower.match(
+      /^priority is (?:(above|below|not) )?(highest|high|medium|none|low|lowest)$/,
+    );
+    if (priority) {
+      const [, op, level] = priority;
+      const rank = PRIORITY_RANK[level];
+      query.filters.push((t) => {
+        const r = PRIORITY_RANK[priorityOf(t)];
+        return op === "above"
+          ? r < rank
+          : op === "below"
+            ? r > rank
+            : op === "not"
+              ? r !== rank
+              : r === rank;
+      });
+      continue;
+    }
+
+    const text = lower.match(/^(tags?|path|description)\s+(.+)$/);
+    if (text) {
+      const [, field, rest] = text;
+      const value: (t: VaultTask) => string[] = field.startsWith("tag")
+        ? (t) => t.tags.map((tag) => `#${tag}`)
+        : field === "path"
+          ? (t) => [t.path]
+          : (t) => [t.text];
+      const filter = textFilter(rest, value);
+      if (filter) {
+        query.filters.push(filter);
+        continue;
+      }
+    }
+
+    const sort = lower.match(/^sort by (\w+)( reverse)?$/);
+    if (sort && SORT_KEYS[sort[1]]) {
+      query.sorts.push({ key: sort[1], reverse: !!sort[2] });
+      continue;
+    }
+
+    const group = lower.match(/^group by (\w+)$/);
+    if (group && GROUP_KEYS[group[1]]) {
+      query.groups.push(group[1]);
+      continue;
+    }
+
+    const limit = lower.match(/^limit (?:to )?(\d+)(?: tasks?)?$/);
+    if (limit) {
+      query.limit = Number(limit[1]);
+      continue;
+    }
+
+    throw new Error(`Unknown query instruction "${line}"`);
+  }
+
+  return query;
+}
+
+function runQuery(tasks: VaultTask[], query: TaskQuery): VaultTask[] {
+  const matched = tasks.filter((t) => query.filters.every((f) => f(t)));
+  // Default order matches list: priority, then due date, then position in the vault
+  const sorts = query.sorts.length
+    ? query.sorts
+    : ["priority", "due", "path"].map((key) => ({ key, reverse: false }));
+
+  matched.sort((a, b) => {
+    for (const { key, reverse } of sorts) {
+      const diff = SORT_KEYS[key](a, b);
+      if (diff !== 0) return reverse ? -diff : diff;
+    }
+    return 0;
+  });
+  return query.limit === undefined ? matched : matched.slice(0, query.limit);
+}
+
+function formatQueryTask(t: VaultTask): string {
+  const tags = t.tags.length ? ` ${t.tags.map((x) => `#${x}`).join(" ")}` : "";
+  const marks: Record<TaskStatus, string> = {
+    todo: "-",
+    "in-progress": "-",
+    done: "✓",
+    cancelled: "✗",
+  };
+  return `${marks[t.status]} ${t.text}${formatMeta(t)}${tags}  (${t.ref})`;
+}
+
+async function queryTasks(instructions: string[], folder?: string): Promise<void> {
+  const query = parseQuery(instructions);
+  const results = runQuery(await readVaultTasks(folder), query);
+
+  if (results.length === 0) {
+    console.log("No tasks found.");
+    return;
+  }
+
+  if (query.groups.length) {
+    // Nested groups are flattened into one heading: "Projects/API.md > #work"
+    const groups = new Map<string, VaultTask[]>();
+    for (const t of results) {
+      let keys = [""];
+      for (const g of query.groups) {
+        keys = keys.flatMap((k) => GROUP_KEYS[g](t).map((v) => (k ? `${k} > ${v}` : v)));
+      }
+      for (const key of keys) groups.set(key, [...(groups.get(key) || []), t]);
+    }
+    [...groups.keys()].sort().forEach((key, i) => {
+      console.log(`${i ? "\n" : ""}=== ${key} ===`);
+      groups.get(key)!.forEach((t) => console.log(formatQueryTask(t)));
+    });
+  } else {
+    results.forEach((t) => console.log(formatQueryTask(t)));
+  }
+
+  console.log(`\n${results.length} task${results.length === 1 ? "" : "s"}`);
+}
+
 // === CLI ===
 
-const args = process.argv.slice(2);
+const args = preview.args;
 const command = args[0];
 
+// Options that take no value; every other option takes the next argument as is
+const SWITCHES = new Set(["clear-due"]);
+
 function parseArgs(args: string[]): { positional: string[]; options: Record<string, string> } {
   const positional: string[] = [];
   const options: Record<string, string> = {};
@@ -285,7 +952,7 @@ function parseArgs(args: string[]): { positional: string[]; options: Record<stri
   for (let i = 0; i < args.length; i++) {
     if (args[i].startsWith("--")) {
       const key = args[i].slice(2);
-      options[key] = args[++i] || "";
+      options[key] = SWITCHES.has(key) ? "true" : args[++i] || "";
     } else {
       positional.push(args[i]);
     }
@@ -298,11 +965,19 @@ const commands: Record<string, () => Promise<void>> = {
   async add() {
     const { positional, options } = parseArgs(args.slice(1));
     if (!positional[0]) {
-      console.error('Usage: todo add "task" [tags...] [--due DATE] [--priority high|med|low]');
+      console.error(
+        'Usage: todo add "task" [tags...] [--due DATE] [--scheduled DATE] [--start DATE] [--priority LEVEL] [--every RULE]',
+      );
       process.exit(1);
     }
     const [text, ...tags] = positional;
-    await add(text, tags, { due: options.due, priority: options.priority });
+    await add(text, tags, {
+      due: options.due,
+      scheduled: options.scheduled,
+      start: options.start,
+      priority: options.priority,
+      every: options.every,
+    });
   },
 
   async done() {
@@ -313,6 +988,41 @@ const commands: Record<string, () => Promise<void>> = {
     await done(args.slice(1).join(" "));
   },
 
+  async cancel() {
+    if (!args[1]) {
+      console.error("Usage: todo cancel <number or search>");
+      process.exit(1);
+    }
+    await cancel(args.slice(1).join(" "));
+  },
+
+  async edit() {
+    const { positional, options } = parseArgs(args.slice(1));
+    const edits = ["text", "due", "clear-due", "priority", "add-tag", "remove-tag"];
+    if (!positional.length || !edits.some((key) => key in options)) {
+      console.error(
+        "Usage: todo edit <number or search> [--text TEXT] [--due DATE | --clear-due] " +
+          "[--priority LEVEL|none] [--add-tag a,b] [--remove-tag a,b]",
+      );
+      process.exit(1);
+    }
+    const list = (raw?: string) =>
+      raw
+        ? raw
+            .split(",")
+            .map((t) => t.trim().replace(/^#/, ""))
+            .filter(Boolean)
+        : [];
+    await edit(positional.join(" "), {
+      text: options.text,
+      due: options.due,
+      clearDue: options["clear-due"] === "true",
+      priority: options.priority,
+      addTags: list(options["add-tag"]),
+      removeTags: list(options["remove-tag"]),
+    });
+  },
+
   async delete() {
     if (!args[1]) {
       console.error("Usage: todo delete <number or search>");
@@ -325,26 +1035,48 @@ const commands: Record<string, () => Promise<void>> = {
     await list(args[1]);
   },
 
+  async query() {
+    const { positional, options } = parseArgs(args.slice(1));
+    await queryTasks(
+      positional.flatMap((p) => p.split("\n")),
+      options.folder,
+    );
+  },
+
   async all() {
     await listAll();
   },
 };
 
-if (!command || !commands[command]) {
+if (import.meta.main && (!command || !commands[command])) {
   console.log(`
 Todo CLI - Obsidian Tasks integration
 
 Usage: bun todo.ts <command> [args]
 
 Commands:
-  add <text> [tags...] [--due DATE] [--priority high|med|low]
-      Add a new task. DATE can be YYYY-MM-DD, "today", or "tomorrow"
+  add <text> [tags...] [--due DATE] [--scheduled DATE] [--start DATE]
+      [--priority highest|high|med|low|lowest] [--every RULE]
+      Add a new task (📅 due, ⏳ scheduled, 🛫 start). DATE can be YYYY-MM-DD,
+      today, tomorrow, a weekday ("fri", "next friday"), "in 3 days", "+2w",
+      "next week", eow, "end of month" or eoy (local time).
+      RULE makes it recurring (🔁), e.g. "day",
+      "2 weeks on Monday, Thursday", "month on the last Friday", "year when done"
+
+  done <number, search or ref>
+      Mark a task as complete (by list number, text search or query reference).
+      A recurring task gets its next occurrence added above it
+
+  cancel <number, search or ref>
+      Mark a task as cancelled: [-] with ❌ date
 
-  done <number or search>
-      Mark a task as complete (by list number or text search)
+  edit <number, search or ref> [--text TEXT] [--due DATE | --clear-due]
+      [--priority LEVEL|none] [--add-tag a,b] [--remove-tag a,b]
+      Change a task in place; everything not named (other dates, ➕, 🔁, 🆔,
+      block link) is kept as written. --text keeps the task's tags
 
-  delete <number or search>
-      Remove a task entirely (by list number or text search)
+  delete <number, search or ref>
+      Remove a task entirely (by list number, text search or query reference)
 
   list [filter]
       Show pending tasks (optionally filtered by text/tag)
@@ -352,22 +1084,54 @@ Commands:
   all
       Show pending + recently completed tasks
 
+  query [instruction...] [--folder <path>]
+      Find tasks in every note of the vault (or a folder), Tasks-plugin style.
+      One instruction per argument or line:
+        done | not done   (cancelled counts as done)
+        status is [not] todo|in-progress|done|cancelled
+        is recurring | is not recurring
+        <date field> [before|after|on] <DATE, as for add, or yesterday>
+        has|no <date field> date
+        priority is [above|below|not] highest|high|medium|none|low|lowest
+        tag|path|description includes|does not include <text>
+        sort by <date field>|priority|path|description|status [reverse]
+        group by path|folder|filename|tags|priority|due|status|recurrence
+        limit <n>
+      Date fields: due, created, start, scheduled, done, cancelled.
+      Each result ends with a reference (Projects/API.md#1a2b3c) that done
+      and delete accept; it stays valid until the task line changes
+
+Global options:
+  --dry-run   Print a unified diff of the task file (on stderr) instead of writing
+  --diff      Write and print the diff
+
 Examples:
   bun todo.ts add "Review PR" work --due tomorrow --priority high
-  bun todo.ts add "Buy groceries" personal errands
+  bun todo.ts add "Buy groceries" personal errands --due "next friday"
+  bun todo.ts add "Plan sprint" work --scheduled 2026-03-02 --start 2026-02-27
+  bun todo.ts add "Weekly review" --due 2026-03-02 --every "week on Monday"
+  bun todo.ts cancel "groceries"
+  bun todo.ts edit "PR" --due friday --priority highest --add-tag urgent
+  bun todo.ts edit 2 --text "Buy groceries and flowers" --clear-due
   bun todo.ts done 1
   bun todo.ts done "PR"
+  bun todo.ts done 1 --dry-run
   bun todo.ts list work
+  bun todo.ts query "not done" "due before tomorrow" "tag includes #work" "group by path"
+  bun todo.ts query "not done" "path includes Meetings" --folder Journal
+  bun todo.ts done "Projects/API.md#1a2b3c"
   bun todo.ts all
 
-File: ${TODO_FILE}${VAULT ? ` (vault: ${VAULT})` : ""}
+File: ${TODO_FILE} (${vault.kind} backend)
 `);
   process.exit(command ? 1 : 0);
 }
 
-try {
-  await commands[command]();
-} catch (error) {
-  console.error("Error:", error instanceof Error ? error.message : error);
-  process.exit(1);
+if (import.meta.main) {
+  try {
+    await commands[command]();
+  } catch (error) {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
 }
@@ -0,0 +1,130 @@
+/**
+ * Unified Diff - line diff of two note versions in `diff -u` format
+ *
+ * Used by the --dry-run / --diff preview (see vault-backend.ts). Common
+ * leading and trailing lines are trimmed before the LCS, so the usual small
+ * edit to a large board stays cheap.
+ *
+ *   --- a/Agents/Mission-Control.md
+ *   +++ b/Agents/Mission-Control.md
+ *   @@ -7,3 +7,3 @@
+ */
+
+interface DiffOp {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+const CONTEXT_LINES = 3;
+
+// Beyond this many LCS cells the changed middle is shown as removed + added
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string | null): string[] {
+  if (!text) return [];
+  return text.replace(/\n$/, "").split("\n");
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((line) => ({ type: " ", line }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    ops.push(...midA.map((line): DiffOp => ({ type: "-", line })));
+    ops.push(...midB.map((line): DiffOp => ({ type: "+", line })));
+  } else {
+    // lcs[i][j]: length of the longest common subsequence of midA[i..] and midB[j..]
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] =
+          midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        ops.push({ type: " ", line: midA[i] });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        ops.push({ type: "-", line: midA[i++] });
+      } else {
+        ops.push({ type: "+", line: midB[j++] });
+      }
+    }
+  }
+
+  ops.push(...a.slice(endA).map((line): DiffOp => ({ type: " ", line })));
+  return ops;
+}
+
+function hunkRange(start: number, count: number): string {
+  // An empty range names the line before it, as diff -u does
+  return `${count ? start + 1 : start},${count}`;
+}
+
+/**
+ * Diff two versions of a note. null stands for a missing note (created or
+ * deleted). Returns "" when nothing changed.
+ */
+export function unifiedDiff(before: string | null, after: string | null, path: string): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  if (ops.every((op) => op.type === " ")) return "";
+
+  // Old/new line numbers before each op
+  const oldPos: number[] = [];
+  const newPos: number[] = [];
+  let o = 0;
+  let n = 0;
+  for (const op of ops) {
+    oldPos.push(o);
+    newPos.push(n);
+    if (op.type !== "+") o++;
+    if (op.type !== "-") n++;
+  }
+
+  const out = [
+    before === null ? "--- /dev/null" : `--- a/${path}`,
+    after === null ? "+++ /dev/null" : `+++ b/${path}`,
+  ];
+
+  let k = 0;
+  while (k < ops.length) {
+    while (k < ops.length && ops[k].type === " ") k++;
+    if (k === ops.length) break;
+
+    // Extend the hunk while the next change is close enough to share context
+    let last = k;
+    for (let i = k; i < ops.length && i - last <= 2 * CONTEXT_LINES; i++) {
+      if (ops[i].type !== " ") last = i;
+    }
+    const start = Math.max(0, k - CONTEXT_LINES);
+    const end = Math.min(ops.length, last + CONTEXT_LINES + 1);
+    const hunk = ops.slice(start, end);
+
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+    out.push(
+      `@@ -${hunkRange(oldPos[start], oldCount)} +${hunkRange(newPos[start], newCount)} @@`,
+      ...hunk.map((op) => `${op.type}${op.line}`),
+    );
+    k = end;
+  }
+
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { ObsidianClient } from "./obsidian-client";
+import { FsBackend, RestBackend, hashContent } from "./vault-backend";
+
+/** In-memory stand-in for the REST client, with random latency to interleave requests. */
+function fakeClient(notes = new Map<string, string>(), afterWrite?: (path: string) => void) {
+  const delay = () => Bun.sleep(Math.random() * 5);
+  const client = {
+    async getNote(path: string) {
+      await delay();
+      if (!notes.has(path)) throw new Error("API error 404: not found");
+      return notes.get(path)!;
+    },
+    async createOrUpdateNote(path: string, content: string) {
+      await delay();
+      notes.set(path, content);
+      afterWrite?.(path);
+    },
+  };
+  return { notes, client: client as unknown as ObsidianClient };
+}
+
+describe("RestBackend.writeIfUnchanged", () => {
+  test("concurrent read-modify-write loses no update", async () => {
+    const { notes, client } = fakeClient(new Map([["Board.md", "0"]]));
+    const scope = `test:${Math.random()}`;
+    const writers = Array.from({ length: 3 }, () => new RestBackend(client, scope));
+
+    const increment = async (backend: RestBackend) => {
+      for (;;) {
+        const current = (await backend.read("Board.md"))!;
+        const next = String(Number(current) + 1);
+        if (await backend.writeIfUnchanged("Board.md", next, hashContent(current))) return;
+      }
+    };
+    await Promise.all(Array.from({ length: 12 }, (_, i) => increment(writers[i % writers.length])));
+
+    expect(notes.get("Board.md")).toBe("12");
+  });
+
+  test("refuses to write over a changed note", async () => {
+    const { notes, client } = fakeClient(new Map([["Board.md", "theirs"]]));
+    const backend = new RestBackend(client, `test:${Math.random()}`);
+
+    expect(await backend.writeIfUnchanged("Board.md", "mine", hashContent("original"))).toBe(false);
+    expect(notes.get("Board.md")).toBe("theirs");
+  });
+
+  test("reports a write another host overwrote before it was read back", async () => {
+    const notes = new Map([["Board.md", "original"]]);
+    const { client } = fakeClient(notes, (path) => notes.set(path, "other host"));
+    const backend = new RestBackend(client, `test:${Math.random()}`);
+
+    expect(await backend.writeIfUnchanged("Board.md", "mine", hashContent("original"))).toBe(false);
+  });
+});
+
+describe("append", () => {
+  const lines = Array.from({ length: 12 }, (_, i) => `- event ${i}`);
+
+  test("keeps every line appended at once through REST", async () => {
+    const { notes, client } = fakeClient(new Map([["Board.history.md", ""]]));
+    const scope = `test:${Math.random()}`;
+    const writers = Array.from({ length: 3 }, () => new RestBackend(client, scope));
+
+    await Promise.all(
+      lines.map((line, i) => writers[i % writers.length].append("Board.history.md", line)),
+    );
+
+    expect(notes.get("Board.history.md")!.trim().split("\n").sort()).toEqual([...lines].sort());
+  });
+
+  test("keeps every line appended at once on the filesystem", async () => {
+    const vaultPath = mkdtempSync(join(tmpdir(), "vault-backend-test-"));
+    try {
+      const writers = Array.from({ length: 3 }, () => new FsBackend(vaultPath));
+      await Promise.all(
+        lines.map((line, i) => writers[i % writers.length].append("Logs/history.md", line)),
+      );
+
+      const content = readFileSync(join(vaultPath, "Logs/history.md"), "utf8");
+      expect(content.trim().split("\n").sort()).toEqual([...lines].sort());
+    } finally {
+      rmSync(vaultPath, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * Vault Backend - pluggable note storage for the skill scripts
+ *
+ * kanban.ts, todo.ts, oncall.ts and thought.ts talk to the vault through this
+ * interface so they also run on hosts without a running Obsidian app.
+ *
+ * Environment variables:
+ *   OBSIDIAN_BACKEND       - cli | rest | fs (default: cli)
+ *   OBSIDIAN_VAULT         - Vault name for the native CLI (optional)
+ *   OBSIDIAN_VAULT_PATH    - Path to vault (fs backend)
+ *   OBSIDIAN_DAILY_FORMAT  - Daily note path, strftime style (fs backend,
+ *                            default: Journal/%Y-%m-%d.md)
+ *   OBSIDIAN_API_KEY etc.  - REST settings, see obsidian-client.ts
+ *
+ * The scripts accept global --dry-run / --diff flags, which wrap the backend
+ * in a PreviewBackend (see withPreview).
+ */
+
+import { $ } from "bun";
+import { createHash } from "crypto";
+import { mkdir, open, rm, stat } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { ObsidianClient } from "./obsidian-client";
+import { unifiedDiff } from "./unified-diff";
+
+export type BackendKind = "cli" | "rest" | "fs";
+
+export interface VaultBackend {
+  readonly kind: BackendKind;
+  /** Returns null when the note does not exist. */
+  read(path: string): Promise<string | null>;
+  /** Creates or overwrites the note. */
+  write(path: string, content: string): Promise<void>;
+  /**
+   * Writes only if the note's current content still hashes to expectedHash
+   * (see hashContent). Returns false, without writing, if it changed.
+   */
+  writeIfUnchanged(path: string, content: string, expectedHash: string): Promise<boolean>;
+  /** Appends content as a new line, creating the note if needed. */
+  append(path: string, content: string): Promise<void>;
+  delete(path: string): Promise<void>;
+  /** Vault-relative paths of all .md files under a folder ("" for the whole vault). */
+  list(folder: string): Promise<string[]>;
+  appendDaily(content: string): Promise<void>;
+}
+
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/** Write unless the note changed since it was read; callers hold the note's lock. */
+async function checkThenWrite(
+  backend: VaultBackend,
+  path: string,
+  content: string,
+  expectedHash: string,
+): Promise<boolean> {
+  const current = await backend.read(path);
+  if (current !== null && hashContent(current) !== expectedHash) return false;
+  await backend.write(path, content);
+  return true;
+}
+
+const LOCK_STALE_MS = 10_000;
+const LOCK_TIMEOUT_MS = 5_000;
+
+/**
+ * Run fn while holding an exclusive lock file. Locks left behind by a crashed
+ * process are broken once they are older than LOCK_STALE_MS.
+ */
+async function withLock<T>(lockPath: string, path: string, fn: () => Promise<T>): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  await mkdir(dirname(lockPath), { recursive: true });
+
+  for (;;) {
+    try {
+      const handle = await open(lockPath, "wx");
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+
+    const lockStat = await stat(lockPath).catch(() => null);
+    if (lockStat && Date.now() - lockStat.mtimeMs > LOCK_STALE_MS) {
+      await rm(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock on "${path}"`);
+    }
+    await Bun.sleep(10 + Math.random() * 20);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await rm(lockPath, { force: true });
+  }
+}
+
+/** Lock file in the temp directory for a note behind an app or API, keyed by vault and note. */
+function hostLockPath(scope: string, path: string): string {
+  return join(
+    tmpdir(),
+    "obsidian-vault-locks",
+    `${hashContent(`${scope}\n${path}`).slice(0, 32)}.lock`,
+  );
+}
+
+/**
+ * Compare-and-swap for backends whose notes live behind an app or API. A lock
+ * file in the temp directory (keyed by vault and note) serialises writers on
+ * this host; reading the note back afterwards catches a writer elsewhere that
+ * overwrote it in between, which is reported as a failed swap.
+ */
+async function lockedWriteIfUnchanged(
+  backend: VaultBackend,
+  scope: string,
+  path: string,
+  content: string,
+  expectedHash: string,
+): Promise<boolean> {
+  return withLock(hostLockPath(scope, path), path, async () => {
+    if (!(await checkThenWrite(backend, path, content, expectedHash))) return false;
+    const written = await backend.read(path);
+    return written !== null && written.replace(/\n$/, "") === content.replace(/\n$/, "");
+  });
+}
+
+// === Native Obsidian CLI ===
+
+export class CliBackend implements VaultBackend {
+  readonly kind = "cli";
+  private vaultArg: string[];
+
+  constructor(private vault = process.env.OBSIDIAN_VAULT) {
+    this.vaultArg = vault ? [`vault=${vault}`] : [];
+  }
+
+  // The CLI always exits 0; failures are reported as "Error: ..." on stdout
+  private check(out: string): void {
+    if (out.startsWith("Error:")) throw new Error(out.trim());
+  }
+
+  async read(path: string): Promise<string | null> {
+    const content = await $`obsidian read path=${path} ${this.vaultArg}`.text();
+    return content.startsWith("Error:") ? null : content;
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    this.check(
+      await $`obsidian create path=${path} content=${content} overwrite ${this.vaultArg}`.text(),
+    );
+  }
+
+  async writeIfUnchanged(path: string, content: string, expectedHash: string): Promise<boolean> {
+    return lockedWriteIfUnchanged(this, `cli:${this.vault ?? ""}`, path, content, expectedHash);
+  }
+
+  async append(path: string, content: string): Promise<void> {
+    this.check(await $`obsidian append path=${path} content=${content} ${this.vaultArg}`.text());
+  }
+
+  async delete(path: string): Promise<void> {
+    this.check(await $`obsidian delete path=${path} permanent ${this.vaultArg}`.text());
+  }
+
+  async list(folder: string): Promise<string[]> {
+    const folderArg = folder ? [`folder=${folder}`] : [];
+    const out = await $`obsidian files ${folderArg} ${this.vaultArg}`.text();
+    if (out.startsWith("Error:")) return [];
+    return out
+      .trim()
+      .split("\n")
+      .filter((l) => l.endsWith(".md"));
+  }
+
+  async appendDaily(content: string): Promise<void> {
+    this.check(await $`obsidian daily:append content=${content} ${this.vaultArg}`.text());
+  }
+}
+
+// === Local REST API ===
+
+export class RestBackend implements VaultBackend {
+  readonly kind = "rest";
+
+  constructor(
+    private client = new ObsidianClient(),
+    // Identifies the vault for locking: the host and port the client talks to
+    private scope = `rest:${process.env.OBSIDIAN_HOST || "127.0.0.1"}:${process.env.OBSIDIAN_PORT || ""}`,
+  ) {}
+
+  async read(path: string): Promise<string | null> {
+    try {
+      return await this.client.getNote(path);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("error 404")) return null;
+      throw error;
+    }
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    await this.client.createOrUpdateNote(path, content);
+  }
+
+  async writeIfUnchanged(path: string, content: string, expectedHash: string): Promise<boolean> {
+    return lockedWriteIfUnchanged(this, this.scope, path, content, expectedHash);
+  }
+
+  /** Read and write back under the note's lock, so concurrent appends on this host all land. */
+  async append(path: string, content: string): Promise<void> {
+    await withLock(hostLockPath(this.scope, path), path, async () => {
+      const existing = (await this.read(path)) || "";
+      const separator = existing && !existing.endsWith("\n") ? "\n" : "";
+      await this.client.createOrUpdateNote(path, existing + separator + content + "\n");
+    });
+  }
+
+  async delete(path: string): Promise<void> {
+    await this.client.deleteNote(path);
+  }
+
+  async list(folder: string): Promise<string[]> {
+    let files: string[];
+    try {
+      ({ files } = await this.client.listFiles(folder));
+    } catch {
+      return [];
+    }
+
+    const results: string[] = [];
+    for (const f of files) {
+      const path = folder ? `${folder}/${f}` : f;
+      if (f.endsWith("/")) {
+        results.push(...(await this.list(path.slice(0, -1))));
+      } else if (f.endsWith(".md")) {
+        results.push(path);
+      }
+    }
+    return results;
+  }
+
+  async appendDaily(content: string): Promise<void> {
+    await this.client.appendToDaily(content + "\n");
+  }
+}
+
+// === Filesystem ===
+
+export class FsBackend implements VaultBackend {
+  readonly kind = "fs";
+  private client: ObsidianClient;
+
+  constructor(
+    private vaultPath = process.env.OBSIDIAN_VAULT_PATH,
+    private dailyFormat = process.env.OBSIDIAN_DAILY_FORMAT || "Journal/%Y-%m-%d.md",
+  ) {
+    this.client = new ObsidianClient({ vaultPath });
+  }
+
+  async read(path: string): Promise<string | null> {
+    try {
+      return await this.client.fsRead(path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    await this.client.fsWrite(path, content);
+  }
+
+  /** A `<note>.lock` file next to the note, shared by every host on the vault. */
+  private lockPath(path: string): string {
+    if (!this.vaultPath) {
+      throw new Error("OBSIDIAN_VAULT_PATH not set");
+    }
+    return join(this.vaultPath, `${path}.lock`);
+  }
+
+  async writeIfUnchanged(path: string, content: string, expectedHash: string): Promise<boolean> {
+    return withLock(this.lockPath(path), path, () =>
+      checkThenWrite(this, path, content, expectedHash),
+    );
+  }
+
+  /** fsAppend reads and writes the note back, so it runs under the note's lock. */
+  async append(path: string, content: string): Promise<void> {
+    await withLock(this.lockPath(path), path, () => this.client.fsAppend(path, content));
+  }
+
+  async delete(path: string): Promise<void> {
+    await this.client.fsDelete(path);
+  }
+
+  async list(folder: string): Promise<string[]> {
+    try {
+      return await this.client.fsList(folder);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  async appendDaily(content: string): Promise<void> {
+    await this.append(strftime(this.dailyFormat, new Date()), content);
+  }
+}
+
+/**
+ * Minimal strftime covering the specifiers used in daily note paths.
+ */
+export function strftime(format: string, date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const specifiers: Record<string, () => string> = {
+    Y: () => String(date.getFullYear()),
+    y: () => pad(date.getFullYear() % 100),
+    m: () => pad(date.getMonth() + 1),
+    d: () => pad(date.getDate()),
+    H: () => pad(date.getHours()),
+    M: () => pad(date.getMinutes()),
+    A: () => date.toLocaleDateString("en-US", { weekday: "long" }),
+    a: () => date.toLocaleDateString("en-US", { weekday: "short" }),
+    B: () => date.toLocaleDateString("en-US", { month: "long" }),
+    b: () => date.toLocaleDateString("en-US", { month: "short" }),
+    "%": () => "%",
+  };
+  return format.replace(/%(.)/g, (match, spec: string) => specifiers[spec]?.() ?? match);
+}
+
+// === Preview (--dry-run / --diff) ===
+
+/**
+ * dry-run: print what each write would change instead of writing.
+ * diff: write, then print what changed.
+ */
+export type PreviewMode = "dry-run" | "diff";
+
+/** Split the global --dry-run / --diff flags off a script's arguments. */
+export function parsePreviewFlags(args: string[]): { mode?: PreviewMode; args: string[] } {
+  const mode = args.includes("--dry-run")
+    ? "dry-run"
+    : args.includes("--diff")
+      ? "diff"
+      : undefined;
+  return { mode, args: args.filter((a) => a !== "--dry-run" && a !== "--diff") };
+}
+
+/**
+ * Wraps a backend and prints a unified diff (on stderr, so stdout keeps the
+ * command's normal output) for every note a command changes. In dry-run mode
+ * writes are kept in memory instead, so a command that reads back what it
+ * wrote sees the same content it would have on disk.
+ */
+export class PreviewBackend implements VaultBackend {
+  readonly kind: BackendKind;
+  private pending = new Map<string, string | null>(); // dry-run writes, null = deleted
+
+  constructor(
+    private inner: VaultBackend,
+    private mode: PreviewMode,
+    private print = (diff: string) => process.stderr.write(diff),
+  ) {
+    this.kind = inner.kind;
+  }
+
+  async read(path: string): Promise<string | null> {
+    return this.pending.has(path) ? this.pending.get(path)! : this.inner.read(path);
+  }
+
+  private async apply(
+    path: string,
+    after: string | null,
+    write: () => Promise<void>,
+  ): Promise<void> {
+    const before = await this.read(path);
+    if (this.mode === "dry-run") this.pending.set(path, after);
+    else await write();
+    this.print(unifiedDiff(before, after, path));
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    await this.apply(path, content, () => this.inner.write(path, content));
+  }
+
+  async writeIfUnchanged(path: string, content: string, expectedHash: string): Promise<boolean> {
+    if (this.mode === "dry-run") {
+      const current = await this.read(path);
+      if (current !== null && hashContent(current) !== expectedHash) return false;
+      await this.write(path, content);
+      return true;
+    }
+
+    const before = await this.inner.read(path);
+    if (!(await this.inner.writeIfUnchanged(path, content, expectedHash))) return false;
+    this.print(unifiedDiff(before, content, path));
+    return true;
+  }
+
+  async append(path: string, content: string): Promise<void> {
+    const before = (await this.read(path)) || "";
+    const separator = before && !before.endsWith("\n") ? "\n" : "";
+    await this.apply(path, before + separator + content + "\n", () =>
+      this.inner.append(path, content),
+    );
+  }
+
+  async delete(path: string): Promise<void> {
+    await this.apply(path, null, () => this.inner.delete(path));
+  }
+
+  async list(folder: string): Promise<string[]> {
+    const files = new Set(await this.inner.list(folder));
+    for (const [path, content] of this.pending) {
+      if (content === null) files.delete(path);
+      else if (path.endsWith(".md") && (!folder || path.startsWith(`${folder}/`))) files.add(path);
+    }
+    return [...files];
+  }
+
+  async appendDaily(content: string): Promise<void> {
+    // The daily note's path is only known to the backend, so show just the added lines
+    if (this.mode === "diff") await this.inner.appendDaily(content);
+    this.print(unifiedDiff("", content + "\n", "(daily note)"));
+  }
+}
+
+/** Wrap the backend in a PreviewBackend when a preview mode is given. */
+export function withPreview(backend: VaultBackend, mode?: PreviewMode): VaultBackend {
+  return mode ? new PreviewBackend(backend, mode) : backend;
+}
+
+// === Factory ===
+
+export function createBackend(kind = process.env.OBSIDIAN_BACKEND || "cli"): VaultBackend {
+  switch (kind) {
+    case "cli":
+      return new CliBackend();
+    case "rest":
+      return new RestBackend();
+    case "fs":
+      return new FsBackend();
+    default:
+      throw new Error(`Unknown OBSIDIAN_BACKEND "${kind}" (expected cli, rest or fs)`);
+  }
+}